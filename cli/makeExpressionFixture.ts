@@ -0,0 +1,154 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { Emotion, FaceLandmarks } from '../src/types/emotion';
+
+/*
+ * Writes cli/fixtures/expressions.json, the labeled keypoints `npm test` scores.
+ *
+ * Each face is MediaPipe's canonical face mesh with an expression applied as a
+ * smooth deformation around a few landmarks, then rolled, scaled and moved to
+ * a pose in a 640x480 frame, with detector-like jitter on every point. The
+ * random jitter is seeded, so the output only changes when this file does.
+ *
+ *   npm run fixtures
+ */
+
+const MESH_PATH = 'cli/fixtures/canonicalFaceMesh.json';
+const OUTPUT_PATH = 'cli/fixtures/expressions.json';
+
+// Landmark jitter in px, about what FaceMesh shows on a still face
+const JITTER_PX = 0.6;
+const POINTS_PER_LINE = 6;
+
+// Move the mesh around a landmark by (dx, dy) cm, fading out with a Gaussian of
+// the given radius; 'jaw' drops everything below the upper lip instead
+interface Deformation {
+  at: number | 'jaw';
+  dx: number;
+  dy: number;
+  radius: number;
+}
+
+const EXPRESSIONS: Record<Emotion, Deformation[]> = {
+  neutral: [],
+  // Mouth corners up and out
+  happy: [
+    { at: 61, dx: -0.45, dy: 0.9, radius: 0.9 },
+    { at: 291, dx: 0.45, dy: 0.9, radius: 0.9 },
+  ],
+  // Mouth corners down, inner brows up, eyelids lowered
+  sad: [
+    { at: 61, dx: 0.1, dy: -0.7, radius: 0.9 },
+    { at: 291, dx: -0.1, dy: -0.7, radius: 0.9 },
+    { at: 107, dx: 0, dy: 0.25, radius: 0.8 },
+    { at: 336, dx: 0, dy: 0.25, radius: 0.8 },
+    { at: 159, dx: 0, dy: -0.15, radius: 0.35 },
+    { at: 386, dx: 0, dy: -0.15, radius: 0.35 },
+  ],
+  // Brows drawn together and down, eyes narrowed
+  angry: [
+    { at: 107, dx: 0.5, dy: -0.35, radius: 0.8 },
+    { at: 336, dx: -0.5, dy: -0.35, radius: 0.8 },
+    { at: 105, dx: 0, dy: -0.35, radius: 1 },
+    { at: 334, dx: 0, dy: -0.35, radius: 1 },
+    { at: 159, dx: 0, dy: -0.15, radius: 0.35 },
+    { at: 386, dx: 0, dy: -0.15, radius: 0.35 },
+  ],
+  // Jaw dropped with the mouth narrowed, brows raised, eyes wide
+  surprised: [
+    { at: 'jaw', dx: 0, dy: -1.6, radius: 2 },
+    { at: 61, dx: 0.3, dy: 0, radius: 0.7 },
+    { at: 291, dx: -0.3, dy: 0, radius: 0.7 },
+    { at: 105, dx: 0, dy: 0.8, radius: 1.3 },
+    { at: 334, dx: 0, dy: 0.8, radius: 1.3 },
+    { at: 107, dx: 0, dy: 0.6, radius: 1 },
+    { at: 336, dx: 0, dy: 0.6, radius: 1 },
+    { at: 159, dx: 0, dy: 0.3, radius: 0.35 },
+    { at: 386, dx: 0, dy: 0.3, radius: 0.35 },
+  ],
+};
+
+// Head roll in degrees, scale in px per cm and the face centre in px
+const POSES = [
+  { roll: 0, scale: 16, x: 320, y: 240 },
+  { roll: -8, scale: 13, x: 290, y: 250 },
+  { roll: 12, scale: 11, x: 300, y: 260 },
+];
+
+const UPPER_LIP_INNER = 13;
+
+// mulberry32, so the jitter is the same on every run
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const random = createRandom(7);
+const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const deform = (mesh: number[][], deformations: Deformation[]) =>
+  mesh.map(([x, y]) => {
+    let dx = 0;
+    let dy = 0;
+    deformations.forEach(({ at, dx: moveX, dy: moveY, radius }) => {
+      let weight: number;
+      if (at === 'jaw') {
+        weight = y < mesh[UPPER_LIP_INNER][1] - 0.2 ? Math.exp(-(x ** 2) / (2 * radius ** 2)) : 0;
+      } else {
+        const [cx, cy] = mesh[at];
+        weight = Math.exp(-((x - cx) ** 2 + (y - cy) ** 2) / (2 * radius ** 2));
+      }
+      dx += moveX * weight;
+      dy += moveY * weight;
+    });
+    return [x + dx, y + dy];
+  });
+
+// Image coordinates: y grows downwards
+const place = (mesh: number[][], { roll, scale, x, y }: (typeof POSES)[number]): FaceLandmarks[] => {
+  const cos = Math.cos((roll * Math.PI) / 180);
+  const sin = Math.sin((roll * Math.PI) / 180);
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return mesh.map(([px, py]) => ({
+    x: round(x + scale * (px * cos - py * sin) + gaussian() * JITTER_PX),
+    y: round(y - scale * (px * sin + py * cos) + gaussian() * JITTER_PX),
+  }));
+};
+
+const { vertices } = JSON.parse(readFileSync(MESH_PATH, 'utf8')) as { vertices: number[][] };
+
+const frames: { timestamp: number; faces: { keypoints: FaceLandmarks[] }[] }[] = [];
+const labels: { timestamp: number; emotion: Emotion }[] = [];
+let timestamp = 0;
+(Object.keys(EXPRESSIONS) as Emotion[]).forEach(emotion => {
+  const mesh = deform(vertices, EXPRESSIONS[emotion]);
+  POSES.forEach(pose => {
+    frames.push({ timestamp, faces: [{ keypoints: place(mesh, pose) }] });
+    labels.push({ timestamp, emotion });
+    timestamp += 100;
+  });
+  // A pause between expressions, so each starts a new dwell period
+  timestamp += 1000;
+});
+
+// A few points per line keeps the file reviewable without one line per point
+const formatKeypoints = (keypoints: FaceLandmarks[]) => {
+  const lines: string[] = [];
+  for (let i = 0; i < keypoints.length; i += POINTS_PER_LINE) {
+    lines.push(keypoints.slice(i, i + POINTS_PER_LINE).map(point => JSON.stringify(point)).join(', '));
+  }
+  return `[\n        ${lines.join(',\n        ')}\n      ]`;
+};
+
+const output = `{
+  "frames": [
+${frames.map(frame => `    { "timestamp": ${frame.timestamp}, "faces": [{ "keypoints": ${formatKeypoints(frame.faces[0].keypoints)} }] }`).join(',\n')}
+  ],
+  "labels": [
+${labels.map(label => `    ${JSON.stringify(label)}`).join(',\n')}
+  ]
+}
+`;
+writeFileSync(OUTPUT_PATH, output);
+console.log(`Wrote ${frames.length} frames to ${OUTPUT_PATH}`);
@@ -0,0 +1,88 @@
+import { Emotion } from '../src/types/emotion';
+import { EMOTIONS, emotionRecord } from '../shared/emotions';
+
+export interface LabeledPair {
+  expected: Emotion;
+  predicted: Emotion;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  // Number of frames labeled with this emotion
+  support: number;
+}
+
+export interface ClassificationMetrics {
+  total: number;
+  accuracy: number;
+  // confusion[expected][predicted] = frame count
+  confusion: Record<Emotion, Record<Emotion, number>>;
+  perClass: Record<Emotion, ClassMetrics>;
+  macroF1: number;
+}
+
+const emptyRow = () => emotionRecord();
+
+const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : 0);
+
+export const computeMetrics = (pairs: LabeledPair[]): ClassificationMetrics => {
+  const confusion = Object.fromEntries(
+    EMOTIONS.map(emotion => [emotion, emptyRow()])
+  ) as Record<Emotion, Record<Emotion, number>>;
+  pairs.forEach(({ expected, predicted }) => {
+    confusion[expected][predicted] += 1;
+  });
+
+  const correct = EMOTIONS.reduce((sum, emotion) => sum + confusion[emotion][emotion], 0);
+  const perClass = Object.fromEntries(
+    EMOTIONS.map(emotion => {
+      const truePositives = confusion[emotion][emotion];
+      const support = EMOTIONS.reduce((sum, predicted) => sum + confusion[emotion][predicted], 0);
+      const predictedCount = EMOTIONS.reduce((sum, expected) => sum + confusion[expected][emotion], 0);
+      const precision = ratio(truePositives, predictedCount);
+      const recall = ratio(truePositives, support);
+      const f1 = ratio(2 * precision * recall, precision + recall);
+      return [emotion, { precision, recall, f1, support }];
+    })
+  ) as Record<Emotion, ClassMetrics>;
+
+  // Average only over emotions that occur in the labels
+  const labeled = EMOTIONS.filter(emotion => perClass[emotion].support > 0);
+  const macroF1 = ratio(labeled.reduce((sum, emotion) => sum + perClass[emotion].f1, 0), labeled.length);
+
+  return {
+    total: pairs.length,
+    accuracy: ratio(correct, pairs.length),
+    confusion,
+    perClass,
+    macroF1,
+  };
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Plain-text report with the confusion matrix and per-emotion scores
+export const formatMetrics = (metrics: ClassificationMetrics) => {
+  const width = Math.max(...EMOTIONS.map(emotion => emotion.length)) + 2;
+  const cell = (value: string | number) => String(value).padStart(width);
+  const lines = [
+    `Frames scored: ${metrics.total}`,
+    `Accuracy:      ${percent(metrics.accuracy)}`,
+    `Macro F1:      ${percent(metrics.macroF1)}`,
+    '',
+    'Confusion matrix (rows: expected, columns: predicted)',
+    ''.padEnd(width) + EMOTIONS.map(cell).join(''),
+    ...EMOTIONS.map(expected =>
+      expected.padEnd(width) + EMOTIONS.map(predicted => cell(metrics.confusion[expected][predicted])).join('')
+    ),
+    '',
+    ''.padEnd(width) + ['precision', 'recall', 'f1', 'support'].map(cell).join(''),
+    ...EMOTIONS.map(emotion => {
+      const { precision, recall, f1, support } = metrics.perClass[emotion];
+      return emotion.padEnd(width) + [percent(precision), percent(recall), percent(f1), support].map(cell).join('');
+    }),
+  ];
+  return lines.join('\n');
+};
@@ -0,0 +1,206 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { Emotion, EmotionData, EmotionTransition } from '../src/types/emotion';
+import { EMOTIONS } from '../shared/emotions';
+import { DetectedFace, createEmotionPipeline } from '../src/utils/emotionPipeline';
+import { DEFAULT_SMOOTHING, SmoothingMethod } from '../src/utils/emotionSmoothing';
+import { LabeledPair, computeMetrics, formatMetrics } from './metrics';
+
+const USAGE = `Usage: npm run score -- <keypoints.json|ndjson> [options]
+
+Runs recorded FaceMesh keypoints through the emotion pipeline and prints the
+resulting EmotionData timeline as NDJSON.
+
+Each input frame is { "timestamp": ms, "faces": [{ "keypoints": [{ "x", "y", "z" }, ...] }] },
+or { "timestamp": ms, "keypoints": [...] } for a single face.
+
+Options:
+  --smoothing <method>    none (default), ema, hysteresis or majority
+  --labels <file>         ground truth as { "timestamp", "emotion", "faceId"? } records;
+                          prints accuracy and a confusion matrix
+  --output <file>         write the timeline to a file instead of stdout
+                          (.json writes { emotions, transitions }, anything else NDJSON)
+  --metrics <file>        write the metrics as JSON
+  --min-accuracy <0-1>    exit with status 2 when accuracy falls below this
+  -h, --help              show this message`;
+
+interface KeypointFrame {
+  timestamp: number;
+  faces: DetectedFace[];
+}
+
+interface Label {
+  timestamp: number;
+  emotion: Emotion;
+  // Omitted for recordings of a single face
+  faceId?: number;
+}
+
+class InputError extends Error {}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Records from a JSON array, a JSON object wrapping one, or NDJSON
+const readRecords = (path: string, wrapperKey: string): unknown[] => {
+  const text = readFileSync(path, 'utf8');
+  try {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed)) return parsed;
+    if (isObject(parsed) && Array.isArray(parsed[wrapperKey])) return parsed[wrapperKey] as unknown[];
+    return [parsed];
+  } catch {
+    return text
+      .split('\n')
+      .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+      .filter(({ line }) => line !== '')
+      .map(({ line, number }) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          throw new InputError(`${path}:${number}: not valid JSON`);
+        }
+      });
+  }
+};
+
+const isKeypointList = (value: unknown) =>
+  Array.isArray(value) &&
+  value.every(point => isObject(point) && Number.isFinite(point.x) && Number.isFinite(point.y));
+
+const toFrame = (record: unknown, index: number): KeypointFrame => {
+  const where = `frame ${index + 1}`;
+  if (!isObject(record) || !Number.isFinite(record.timestamp)) {
+    throw new InputError(`${where}: timestamp must be a number`);
+  }
+
+  const faces = Array.isArray(record.faces) ? record.faces : [{ keypoints: record.keypoints }];
+  faces.forEach((face, faceIndex) => {
+    if (!isObject(face) || !isKeypointList(face.keypoints)) {
+      throw new InputError(`${where}, face ${faceIndex + 1}: keypoints must be a list of { x, y } points`);
+    }
+  });
+  return { timestamp: record.timestamp as number, faces: faces as DetectedFace[] };
+};
+
+const toLabel = (record: unknown, index: number): Label => {
+  const where = `label ${index + 1}`;
+  if (!isObject(record) || !Number.isFinite(record.timestamp)) {
+    throw new InputError(`${where}: timestamp must be a number`);
+  }
+  if (!EMOTIONS.includes(record.emotion as Emotion)) {
+    throw new InputError(`${where}: emotion must be one of ${EMOTIONS.join(', ')}`);
+  }
+  return {
+    timestamp: record.timestamp as number,
+    emotion: record.emotion as Emotion,
+    faceId: Number.isInteger(record.faceId) ? (record.faceId as number) : undefined,
+  };
+};
+
+const main = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      smoothing: { type: 'string', default: 'none' },
+      labels: { type: 'string' },
+      output: { type: 'string' },
+      metrics: { type: 'string' },
+      'min-accuracy': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const method = values.smoothing as SmoothingMethod;
+  if (!Object.hasOwn(DEFAULT_SMOOTHING, method)) {
+    throw new InputError(`Unknown smoothing method: ${method}`);
+  }
+  const minAccuracy = values['min-accuracy'] !== undefined ? Number(values['min-accuracy']) : undefined;
+  if (minAccuracy !== undefined && !(minAccuracy >= 0 && minAccuracy <= 1)) {
+    throw new InputError('--min-accuracy must be a number between 0 and 1');
+  }
+
+  // Classify every frame in timestamp order
+  const frames = readRecords(positionals[0], 'frames')
+    .map(toFrame)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const pipeline = createEmotionPipeline({ smoothing: DEFAULT_SMOOTHING[method] });
+  const emotions: EmotionData[] = [];
+  const transitions: EmotionTransition[] = [];
+  frames.forEach(frame => {
+    pipeline.process(frame.faces, frame.timestamp).forEach(({ emotion, transition }) => {
+      if (emotion) emotions.push(emotion);
+      if (transition) transitions.push(transition);
+    });
+  });
+
+  const timeline = values.output && extname(values.output) === '.json'
+    ? JSON.stringify({ emotions, transitions }, null, 2)
+    : emotions.map(emotion => JSON.stringify(emotion)).join('\n');
+  if (values.output) {
+    writeFileSync(values.output, `${timeline}\n`);
+  } else {
+    process.stdout.write(`${timeline}\n`);
+  }
+  // Keep stdout clean for the timeline when it goes there
+  const report = values.output ? console.log : console.error;
+  report(`Classified ${emotions.length} faces in ${frames.length} frames, ${transitions.length} transitions`);
+
+  if (!values.labels) return 0;
+
+  const predictions = new Map<number, EmotionData[]>();
+  emotions.forEach(emotion => {
+    predictions.set(emotion.timestamp, [...(predictions.get(emotion.timestamp) ?? []), emotion]);
+  });
+  // A label without a face id belongs to the only face at its timestamp,
+  // whatever id the tracker gave it
+  const findPrediction = ({ timestamp, faceId }: Label) => {
+    const faces = predictions.get(timestamp) ?? [];
+    if (faceId === undefined) return faces.length === 1 ? faces[0] : undefined;
+    return faces.find(emotion => emotion.faceId === faceId);
+  };
+  const labels = readRecords(values.labels, 'labels').map(toLabel);
+  const pairs: LabeledPair[] = [];
+  let unmatched = 0;
+  labels.forEach(label => {
+    const prediction = findPrediction(label);
+    if (prediction) {
+      pairs.push({ expected: label.emotion, predicted: prediction.emotion });
+    } else {
+      unmatched += 1;
+    }
+  });
+
+  const metrics = computeMetrics(pairs);
+  report('');
+  report(formatMetrics(metrics));
+  if (unmatched > 0) {
+    report(`\n${unmatched} of ${labels.length} labels had no classified face at their timestamp`);
+  }
+  if (values.metrics) {
+    writeFileSync(values.metrics, `${JSON.stringify({ ...metrics, unmatched }, null, 2)}\n`);
+  }
+
+  if (minAccuracy !== undefined && metrics.accuracy < minAccuracy) {
+    console.error(`\nAccuracy ${(metrics.accuracy * 100).toFixed(1)}% is below the required ${(minAccuracy * 100).toFixed(1)}%`);
+    return 2;
+  }
+  return 0;
+};
+
+try {
+  process.exitCode = main();
+} catch (error) {
+  if (error instanceof InputError || (error as NodeJS.ErrnoException).code === 'ENOENT') {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exitCode = 1;
+  } else {
+    throw error;
+  }
+}
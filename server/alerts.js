@@ -0,0 +1,183 @@
+import { EMOTIONS } from '../shared/emotions.js';
+import { MAX_FRAME_GAP_MS } from './analytics.js';
+
+export const ALERT_RULE_TYPES = ['emotion', 'no-face'];
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate an alert rule from a request body. Returns { error } with a message
+ * for the client, or { rule } without id and createdAt.
+ *
+ *   { name, type: 'emotion', emotions: ['angry', 'sad'], minConfidence: 0.7, duration: 20000 }
+ *   { name, type: 'no-face', duration: 10000 }
+ *
+ * `duration` is in ms; `enabled` defaults to true.
+ */
+export const parseAlertRule = (body) => {
+  if (!isObject(body)) return { error: 'rule must be an object' };
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) return { error: 'name is required' };
+  if (!ALERT_RULE_TYPES.includes(body.type)) {
+    return { error: `type must be one of ${ALERT_RULE_TYPES.join(', ')}` };
+  }
+  if (!Number.isFinite(body.duration) || body.duration <= 0) {
+    return { error: 'duration must be a positive number of ms' };
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return { error: 'enabled must be a boolean' };
+  }
+
+  let emotions = [];
+  let minConfidence = 0;
+  if (body.type === 'emotion') {
+    if (!Array.isArray(body.emotions) || body.emotions.length === 0) {
+      return { error: 'emotions must be a non-empty list' };
+    }
+    const unknown = body.emotions.find(emotion => !EMOTIONS.includes(emotion));
+    if (unknown !== undefined) return { error: `emotions must be among ${EMOTIONS.join(', ')}` };
+    emotions = [...new Set(body.emotions)];
+
+    minConfidence = body.minConfidence ?? 0;
+    if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+      return { error: 'minConfidence must be a number between 0 and 1' };
+    }
+  }
+
+  return {
+    rule: { name, type: body.type, emotions, minConfidence, duration: body.duration, enabled: body.enabled ?? true },
+  };
+};
+
+/**
+ * Evaluates alert rules against each session's incoming frames and face counts.
+ *
+ * An emotion rule fires when one face keeps showing one of the rule's emotions
+ * at or above its confidence for the rule's duration, measured on the frames'
+ * timestamps. A frame that does not match, or a gap of more than
+ * MAX_FRAME_GAP_MS, starts the count over. A no-face rule works the same way on
+ * the face counts a detecting client reports, and fires when they stay at zero
+ * for the rule's duration; a client that stops detecting stops reporting, so
+ * it never counts as no face. Each rule fires once per episode and again only
+ * after the condition has cleared.
+ *
+ * Sessions are tracked from their first report until removeSession. Changing
+ * the rules restarts every count.
+ */
+export const createAlertEngine = ({ onAlert }) => {
+  let rules = [];
+  // Per session: where to attribute alerts, and the running episodes keyed by
+  // rule, and by face for emotion rules
+  const sessions = new Map();
+
+  const fire = (alert) => {
+    Promise.resolve(onAlert({ ...alert, receivedAt: Date.now() }))
+      .catch(error => console.error('Error delivering alert:', error));
+  };
+
+  // Session state for a report; target says whom it came from
+  const track = ({ sessionId, participantId, roomId }) => {
+    let state = sessions.get(sessionId);
+    if (!state) {
+      state = { sessionId, episodes: new Map() };
+      sessions.set(sessionId, state);
+    }
+    state.participantId = participantId;
+    state.roomId = roomId;
+    return state;
+  };
+
+  // Extend a rule's episode with a report that matches it, firing once the
+  // episode has lasted the rule's duration
+  const advance = (state, rule, key, timestamp, details) => {
+    let episode = state.episodes.get(key);
+    if (!episode || timestamp - episode.last > MAX_FRAME_GAP_MS) {
+      episode = { start: timestamp, last: timestamp, fired: false };
+      state.episodes.set(key, episode);
+    }
+    episode.last = Math.max(episode.last, timestamp);
+
+    const held = episode.last - episode.start;
+    if (!episode.fired && held >= rule.duration) {
+      episode.fired = true;
+      fire({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        type: rule.type,
+        sessionId: state.sessionId,
+        participantId: state.participantId,
+        roomId: state.roomId,
+        ...details,
+        startedAt: episode.start,
+        duration: held,
+      });
+    }
+  };
+
+  return {
+    setRules(next) {
+      rules = next;
+      for (const state of sessions.values()) {
+        state.episodes.clear();
+      }
+    },
+
+    // Evaluate a stored frame
+    recordEmotion(target, frame) {
+      const state = track(target);
+      for (const rule of rules) {
+        if (!rule.enabled || rule.type !== 'emotion') continue;
+        const key = `${rule.id}:${frame.faceId ?? ''}`;
+        if (!rule.emotions.includes(frame.emotion) || frame.confidence < rule.minConfidence) {
+          state.episodes.delete(key);
+          continue;
+        }
+        advance(state, rule, key, frame.timestamp, {
+          faceId: frame.faceId,
+          emotion: frame.emotion,
+          confidence: frame.confidence,
+        });
+      }
+    },
+
+    // Evaluate the number of faces in view at a detection timestamp
+    recordFaces(target, { count, timestamp }) {
+      const state = track(target);
+      for (const rule of rules) {
+        if (!rule.enabled || rule.type !== 'no-face') continue;
+        if (count > 0) {
+          state.episodes.delete(rule.id);
+          continue;
+        }
+        advance(state, rule, rule.id, timestamp, {});
+      }
+    },
+
+    // Stop evaluating a session that ended or disconnected
+    removeSession(sessionId) {
+      sessions.delete(sessionId);
+    },
+  };
+};
+
+/**
+ * POST each alert as JSON to a webhook URL. Failures are logged; the alert is
+ * still stored and pushed to clients.
+ */
+export const createWebhookNotifier = (url) => async (alert) => {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'alert', alert }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`Alert webhook answered with status ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Alert webhook failed:', error.message);
+  }
+};
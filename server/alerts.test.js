@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createAlertEngine, parseAlertRule } from './alerts.js';
+import { MAX_FRAME_GAP_MS } from './analytics.js';
+
+const TARGET = { sessionId: 'session', participantId: 'participant', roomId: null };
+
+const NEGATIVE_RULE = {
+  id: 'negative',
+  name: 'Negative',
+  type: 'emotion',
+  emotions: ['angry', 'sad'],
+  minConfidence: 0.6,
+  duration: 1000,
+  enabled: true,
+};
+
+const NO_FACE_RULE = { id: 'away', name: 'Away', type: 'no-face', emotions: [], minConfidence: 0, duration: 2000, enabled: true };
+
+const createEngine = (rules) => {
+  const alerts = [];
+  const engine = createAlertEngine({ onAlert: (alert) => alerts.push(alert) });
+  engine.setRules(rules);
+  return { engine, alerts };
+};
+
+// Frames of one face every 250 ms from `start`
+const feed = (engine, emotions, { start = 0, faceId, confidence = 0.9 } = {}) => {
+  emotions.forEach((emotion, index) => {
+    engine.recordEmotion(TARGET, { emotion, confidence, timestamp: start + index * 250, faceId });
+  });
+};
+
+const repeat = (value, count) => Array.from({ length: count }, () => value);
+
+describe('parseAlertRule', () => {
+  it('accepts an emotion rule and fills in the defaults', () => {
+    const { rule, error } = parseAlertRule({ name: ' Upset ', type: 'emotion', emotions: ['sad', 'angry', 'sad'], duration: 5000 });
+    assert.equal(error, undefined);
+    assert.deepEqual(rule, {
+      name: 'Upset',
+      type: 'emotion',
+      emotions: ['sad', 'angry'],
+      minConfidence: 0,
+      duration: 5000,
+      enabled: true,
+    });
+  });
+
+  it('accepts a no-face rule without emotions', () => {
+    const { rule } = parseAlertRule({ name: 'Away', type: 'no-face', duration: 10000, enabled: false });
+    assert.deepEqual(rule, { name: 'Away', type: 'no-face', emotions: [], minConfidence: 0, duration: 10000, enabled: false });
+  });
+
+  it('rejects invalid rules with a message', () => {
+    const valid = { name: 'Upset', type: 'emotion', emotions: ['sad'], duration: 5000 };
+    [
+      null,
+      [],
+      { ...valid, name: '  ' },
+      { ...valid, type: 'loud' },
+      { ...valid, duration: 0 },
+      { ...valid, duration: '5000' },
+      { ...valid, enabled: 'yes' },
+      { ...valid, emotions: [] },
+      { ...valid, emotions: ['bored'] },
+      { ...valid, minConfidence: 1.5 },
+      { ...valid, minConfidence: -0.1 },
+    ].forEach(body => {
+      const result = parseAlertRule(body);
+      assert.equal(result.rule, undefined, JSON.stringify(body));
+      assert.equal(typeof result.error, 'string');
+    });
+  });
+});
+
+describe('emotion rules', () => {
+  it('fire once the emotion has been held for the rule duration', () => {
+    const { engine, alerts } = createEngine([NEGATIVE_RULE]);
+    // 0 to 750 ms is not long enough
+    feed(engine, repeat('sad', 4));
+    assert.equal(alerts.length, 0);
+
+    engine.recordEmotion(TARGET, { emotion: 'angry', confidence: 0.8, timestamp: 1000 });
+    assert.equal(alerts.length, 1);
+    assert.deepEqual(
+      { ...alerts[0], receivedAt: undefined },
+      {
+        ruleId: 'negative',
+        ruleName: 'Negative',
+        type: 'emotion',
+        sessionId: 'session',
+        participantId: 'participant',
+        roomId: null,
+        faceId: undefined,
+        emotion: 'angry',
+        confidence: 0.8,
+        startedAt: 0,
+        duration: 1000,
+        receivedAt: undefined,
+      }
+    );
+  });
+
+  it('fire only once per episode and re-arm after the condition clears', () => {
+    const { engine, alerts } = createEngine([NEGATIVE_RULE]);
+    feed(engine, repeat('sad', 12));
+    assert.equal(alerts.length, 1);
+
+    feed(engine, ['happy', ...repeat('sad', 5)], { start: 3000 });
+    assert.equal(alerts.length, 2);
+    assert.equal(alerts[1].startedAt, 3250);
+  });
+
+  it('start over after a gap between frames', () => {
+    const { engine, alerts } = createEngine([NEGATIVE_RULE]);
+    feed(engine, repeat('sad', 3));
+    feed(engine, repeat('sad', 3), { start: 500 + MAX_FRAME_GAP_MS + 1 });
+    assert.equal(alerts.length, 0);
+  });
+
+  it('ignore frames below the minimum confidence', () => {
+    const { engine, alerts } = createEngine([NEGATIVE_RULE]);
+    feed(engine, repeat('sad', 10), { confidence: 0.5 });
+    assert.equal(alerts.length, 0);
+  });
+
+  it('count each face separately', () => {
+    const { engine, alerts } = createEngine([NEGATIVE_RULE]);
+    // Face 2 breaks its own episode, not face 1's
+    [0, 250, 500, 750, 1000].forEach((timestamp, index) => {
+      engine.recordEmotion(TARGET, { emotion: 'sad', confidence: 0.9, timestamp, faceId: 1 });
+      engine.recordEmotion(TARGET, { emotion: index % 2 ? 'happy' : 'sad', confidence: 0.9, timestamp, faceId: 2 });
+    });
+    assert.deepEqual(alerts.map(alert => alert.faceId), [1]);
+  });
+
+  it('restart every count when the rules change, and skip disabled rules', () => {
+    const { engine, alerts } = createEngine([NEGATIVE_RULE]);
+    feed(engine, repeat('sad', 3));
+    engine.setRules([NEGATIVE_RULE, { ...NEGATIVE_RULE, id: 'off', enabled: false }]);
+    feed(engine, repeat('sad', 3), { start: 750 });
+    assert.equal(alerts.length, 0);
+    feed(engine, repeat('sad', 2), { start: 1500 });
+    assert.deepEqual(alerts.map(alert => alert.ruleId), ['negative']);
+  });
+
+  it('stop for a removed session', () => {
+    const { engine, alerts } = createEngine([NEGATIVE_RULE]);
+    feed(engine, repeat('sad', 3));
+    engine.removeSession('session');
+    feed(engine, repeat('sad', 3), { start: 750 });
+    assert.equal(alerts.length, 0);
+  });
+});
+
+describe('no-face rules', () => {
+  it('fire when the reported face count stays at zero for the rule duration', () => {
+    const { engine, alerts } = createEngine([NO_FACE_RULE]);
+    [0, 1000, 2000].forEach(timestamp => engine.recordFaces(TARGET, { count: 0, timestamp }));
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0].type, 'no-face');
+    assert.equal(alerts[0].duration, 2000);
+  });
+
+  it('start over when a face comes back', () => {
+    const { engine, alerts } = createEngine([NO_FACE_RULE]);
+    engine.recordFaces(TARGET, { count: 0, timestamp: 0 });
+    engine.recordFaces(TARGET, { count: 0, timestamp: 1000 });
+    engine.recordFaces(TARGET, { count: 1, timestamp: 1500 });
+    engine.recordFaces(TARGET, { count: 0, timestamp: 2000 });
+    engine.recordFaces(TARGET, { count: 0, timestamp: 3000 });
+    assert.equal(alerts.length, 0);
+    engine.recordFaces(TARGET, { count: 0, timestamp: 4000 });
+    assert.equal(alerts.length, 1);
+    assert.equal(alerts[0].startedAt, 2000);
+  });
+
+  it('do not count a pause in reports as no face', () => {
+    const { engine, alerts } = createEngine([NO_FACE_RULE]);
+    engine.recordFaces(TARGET, { count: 0, timestamp: 0 });
+    engine.recordFaces(TARGET, { count: 0, timestamp: 60000 });
+    assert.equal(alerts.length, 0);
+  });
+});
@@ -0,0 +1,201 @@
+import { EMOTIONS, emotionRecord, isEmotion } from '../shared/emotions.js';
+
+export const ANALYTICS_SCOPES = ['global', 'session', 'room'];
+
+// Preset windows, ending now
+const WINDOWS = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+};
+const DEFAULT_WINDOW = '1h';
+
+const UNIT_MS = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// Bucket sizes picked when none is given: the smallest that keeps the series
+// at TARGET_BUCKETS or fewer
+const AUTO_BUCKETS = ['1s', '5s', '10s', '30s', '1m', '5m', '15m', '30m', '1h', '6h', '1d'];
+const TARGET_BUCKETS = 60;
+const MAX_BUCKETS = 1440;
+
+// A gap longer than this between two frames of one face means detection
+// stopped or the face left
+export const MAX_FRAME_GAP_MS = 2000;
+
+// Time credited to a frame with no next frame to measure against, either
+// across such a gap or as a face's last frame: one frame at the default 10 FPS
+export const NOMINAL_FRAME_MS = 100;
+
+const PAGE_SIZE = 1000;
+
+// Parse a duration such as 30s, 1m or 24h into milliseconds
+const parseDuration = (value) => {
+  const match = /^(\d+)([smhd])$/.exec(String(value));
+  if (!match) return null;
+  const ms = Number(match[1]) * UNIT_MS[match[2]];
+  return ms > 0 ? ms : null;
+};
+
+/**
+ * Validate GET /api/analytics query parameters. Returns { error } with a
+ * message for the client, or { options } for computeAnalytics.
+ */
+export const parseAnalyticsQuery = (query, now = Date.now()) => {
+  const scope = query.scope || 'global';
+  if (!ANALYTICS_SCOPES.includes(scope)) {
+    return { error: `scope must be one of ${ANALYTICS_SCOPES.join(', ')}` };
+  }
+  const filter = {};
+  if (scope === 'session') {
+    if (!query.sessionId) return { error: 'sessionId is required for the session scope' };
+    filter.sessionId = String(query.sessionId);
+  }
+  if (scope === 'room') {
+    if (!query.roomId) return { error: 'roomId is required for the room scope' };
+    filter.roomId = String(query.roomId);
+  }
+
+  const window = query.window || DEFAULT_WINDOW;
+  let from;
+  let to;
+  if (window === 'custom') {
+    from = Number(query.from);
+    to = query.to !== undefined ? Number(query.to) : now;
+    if (!query.from || !Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+      return { error: 'custom window needs from and to timestamps in ms, from before to' };
+    }
+  } else if (WINDOWS[window]) {
+    to = now;
+    from = now - WINDOWS[window];
+  } else {
+    return { error: `window must be one of ${[...Object.keys(WINDOWS), 'custom'].join(', ')}` };
+  }
+
+  let bucketMs;
+  if (query.bucket) {
+    bucketMs = parseDuration(query.bucket);
+    if (!bucketMs) return { error: 'bucket must be a duration such as 30s, 1m or 1h' };
+  } else {
+    const auto = AUTO_BUCKETS.map(parseDuration).find(ms => (to - from) / ms <= TARGET_BUCKETS);
+    bucketMs = auto ?? parseDuration(AUTO_BUCKETS[AUTO_BUCKETS.length - 1]);
+  }
+  if (Math.ceil((to - from) / bucketMs) > MAX_BUCKETS) {
+    return { error: `bucket is too small for the window (at most ${MAX_BUCKETS} buckets)` };
+  }
+
+  return { options: { scope, window, filter, from, to, bucketMs } };
+};
+
+// Running mean and variance (Welford's method)
+const createConfidenceAccumulator = () => {
+  let count = 0;
+  let mean = 0;
+  let m2 = 0;
+  return {
+    add(value) {
+      count += 1;
+      const delta = value - mean;
+      mean += delta / count;
+      m2 += delta * (value - mean);
+    },
+    result: () => ({ mean, variance: count > 0 ? m2 / count : 0 }),
+  };
+};
+
+const createTally = () => ({
+  frameCount: 0,
+  distribution: emotionRecord(),
+  // Seconds each emotion was shown
+  timeShare: emotionRecord(),
+  confidence: createConfidenceAccumulator(),
+});
+
+// Emotion held longest, frame count breaking ties; null without frames
+const findDominantEmotion = ({ frameCount, distribution, timeShare }) => {
+  if (frameCount === 0) return null;
+  return EMOTIONS.reduce((best, emotion) =>
+    timeShare[emotion] > timeShare[best] ||
+    (timeShare[emotion] === timeShare[best] && distribution[emotion] > distribution[best])
+      ? emotion
+      : best
+  );
+};
+
+const roundSeconds = (distribution) =>
+  Object.fromEntries(Object.entries(distribution).map(([emotion, seconds]) => [emotion, Math.round(seconds * 1000) / 1000]));
+
+const summarize = (tally) => {
+  const { mean, variance } = tally.confidence.result();
+  return {
+    frameCount: tally.frameCount,
+    distribution: tally.distribution,
+    confidence: { mean, variance },
+    dominantEmotion: findDominantEmotion(tally),
+    timeShare: roundSeconds(tally.timeShare),
+  };
+};
+
+/**
+ * Aggregate the frames in a window: distribution, confidence mean and
+ * variance, dominant emotion and seconds per emotion, overall and per bucket.
+ *
+ * Every figure comes from the same frames, selected by receivedAt. A frame is
+ * credited the time until the next frame of the same face in the same session,
+ * measured on the client's frame timestamps, so time share reflects how long
+ * an emotion was shown rather than how many frames happened to be sent. A
+ * frame followed by a gap over MAX_FRAME_GAP_MS, or by no frame at all, is
+ * credited NOMINAL_FRAME_MS instead.
+ */
+export const computeAnalytics = async (storage, { scope, window, filter, from, to, bucketMs }) => {
+  const firstBucket = Math.floor(from / bucketMs) * bucketMs;
+  const bucketCount = Math.max(1, Math.ceil((to - firstBucket) / bucketMs));
+  const buckets = Array.from({ length: bucketCount }, createTally);
+  const total = createTally();
+  // Previous frame of each face, waiting for the next one to learn its duration
+  const previousFrames = new Map();
+
+  const credit = (frame, seconds) => {
+    const bucket = buckets[Math.floor((frame.receivedAt - firstBucket) / bucketMs)];
+    total.timeShare[frame.emotion] += seconds;
+    if (bucket) bucket.timeShare[frame.emotion] += seconds;
+  };
+
+  let after;
+  do {
+    const page = await storage.getEmotionPage({ ...filter, from, to, after, limit: PAGE_SIZE });
+    for (const frame of page.emotions) {
+      // Labels stored before they were removed from the emotion registry
+      if (!isEmotion(frame.emotion)) continue;
+      const bucket = buckets[Math.floor((frame.receivedAt - firstBucket) / bucketMs)];
+      for (const tally of bucket ? [total, bucket] : [total]) {
+        tally.frameCount += 1;
+        tally.distribution[frame.emotion] += 1;
+        tally.confidence.add(frame.confidence);
+      }
+
+      const key = `${frame.sessionId}:${frame.faceId ?? ''}`;
+      const previous = previousFrames.get(key);
+      if (previous) {
+        const gap = Math.max(0, frame.timestamp - previous.timestamp);
+        credit(previous, (gap > MAX_FRAME_GAP_MS ? NOMINAL_FRAME_MS : gap) / 1000);
+      }
+      previousFrames.set(key, frame);
+    }
+    after = page.nextCursor ?? undefined;
+  } while (after !== undefined);
+  previousFrames.forEach(last => credit(last, NOMINAL_FRAME_MS / 1000));
+
+  return {
+    scope,
+    ...filter,
+    window,
+    from,
+    to,
+    bucketMs,
+    ...summarize(total),
+    series: buckets.map((bucket, index) => ({
+      start: firstBucket + index * bucketMs,
+      ...summarize(bucket),
+    })),
+  };
+};
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MAX_FRAME_GAP_MS, NOMINAL_FRAME_MS, computeAnalytics } from './analytics.js';
+import { createMemoryStorage } from './storage/memoryStorage.js';
+
+const START = 1_000_000;
+
+// Frames of one face in one session, received as they were taken
+const storeFrames = async (storage, frames) => {
+  for (const [offset, emotion] of frames) {
+    await storage.appendEmotion({
+      sessionId: 'session',
+      participantId: 'participant',
+      emotion,
+      confidence: 0.9,
+      timestamp: START + offset,
+      receivedAt: START + offset,
+    });
+  }
+};
+
+const analyze = (storage) =>
+  computeAnalytics(storage, {
+    scope: 'global',
+    window: '1h',
+    filter: {},
+    from: START,
+    to: START + 60 * 60 * 1000,
+    bucketMs: 60 * 60 * 1000,
+  });
+
+describe('computeAnalytics time share', () => {
+  it('credits each frame the time until the next one', async () => {
+    const storage = createMemoryStorage({ retention: {} });
+    await storeFrames(storage, [[0, 'happy'], [500, 'happy'], [1500, 'sad'], [2000, 'sad']]);
+
+    const { timeShare } = await analyze(storage);
+    assert.equal(timeShare.happy, 1.5);
+    // The last frame counts for a nominal frame duration
+    assert.equal(timeShare.sad, 0.5 + NOMINAL_FRAME_MS / 1000);
+  });
+
+  it('credits a nominal frame duration across a gap longer than the maximum', async () => {
+    const storage = createMemoryStorage({ retention: {} });
+    const resumedAt = MAX_FRAME_GAP_MS + 60 * 1000;
+    await storeFrames(storage, [[0, 'angry'], [resumedAt, 'neutral']]);
+
+    const { timeShare } = await analyze(storage);
+    assert.equal(timeShare.angry, NOMINAL_FRAME_MS / 1000);
+    assert.equal(timeShare.neutral, NOMINAL_FRAME_MS / 1000);
+  });
+
+  it('still credits a gap of exactly the maximum in full', async () => {
+    const storage = createMemoryStorage({ retention: {} });
+    await storeFrames(storage, [[0, 'surprised'], [MAX_FRAME_GAP_MS, 'neutral']]);
+
+    const { timeShare } = await analyze(storage);
+    assert.equal(timeShare.surprised, MAX_FRAME_GAP_MS / 1000);
+  });
+});
@@ -0,0 +1,168 @@
+import { EMOTIONS, getEmotionDefinition } from '../shared/emotions.js';
+
+export const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+};
+
+// Format for an export query value, or null when unsupported; inherited
+// property names such as __proto__ are not formats
+export const getExportFormat = (format) =>
+  typeof format === 'string' && Object.hasOwn(EXPORT_FORMATS, format) ? EXPORT_FORMATS[format] : null;
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'received_at',
+  'face_id',
+  'emotion',
+  'confidence',
+  ...EMOTIONS.map(emotion => `score_${emotion}`),
+  'classifier',
+  'classifier_version',
+];
+
+const escapeCsv = (value) => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvHeader = () => `${CSV_COLUMNS.join(',')}\n`;
+
+export const toCsvRows = (emotions) =>
+  emotions
+    .map(frame => [
+      frame.timestamp,
+      frame.receivedAt,
+      frame.faceId,
+      frame.emotion,
+      frame.confidence,
+      ...EMOTIONS.map(emotion => frame.scores?.[emotion]),
+      frame.classifier?.id,
+      frame.classifier?.version,
+    ].map(escapeCsv).join(',') + '\n')
+    .join('');
+
+export const toNdjsonRows = (emotions) =>
+  emotions.map(frame => `${JSON.stringify(frame)}\n`).join('');
+
+const escapeHtml = (value) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatDuration = (seconds) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}m ${secs}s`;
+};
+
+// Confidence over time as an inline SVG, one dot per frame in its emotion's colour
+const renderTimeline = (emotions) => {
+  const width = 720;
+  const height = 220;
+  const padding = 32;
+  if (emotions.length === 0) {
+    return '<p class="muted">No emotions were recorded in this session.</p>';
+  }
+
+  const start = emotions[0].timestamp;
+  const span = Math.max(1, emotions[emotions.length - 1].timestamp - start);
+  const x = (frame) => padding + ((frame.timestamp - start) / span) * (width - 2 * padding);
+  const y = (frame) => height - padding - frame.confidence * (height - 2 * padding);
+
+  // One line per tracked face
+  const faceIds = [...new Set(emotions.map(frame => frame.faceId))];
+  const lines = faceIds
+    .map(faceId => emotions
+      .filter(frame => frame.faceId === faceId)
+      .map(frame => `${x(frame).toFixed(1)},${y(frame).toFixed(1)}`)
+      .join(' '))
+    .map(points => `<polyline points="${points}" fill="none" stroke="#9CA3AF" stroke-width="1" />`)
+    .join('');
+  const dots = emotions
+    .map(frame => `<circle cx="${x(frame).toFixed(1)}" cy="${y(frame).toFixed(1)}" r="2.5" fill="${getEmotionDefinition(frame.emotion).color}"><title>${frame.faceId ? `Face ${frame.faceId}: ` : ''}${escapeHtml(frame.emotion)} ${(frame.confidence * 100).toFixed(1)}%</title></circle>`)
+    .join('');
+  const gridLines = [0, 0.5, 1]
+    .map(value => {
+      const lineY = height - padding - value * (height - 2 * padding);
+      return `<line x1="${padding}" x2="${width - padding}" y1="${lineY}" y2="${lineY}" stroke="#E5E7EB" />` +
+        `<text x="${padding - 6}" y="${lineY + 4}" text-anchor="end" font-size="10" fill="#6B7280">${value * 100}%</text>`;
+    })
+    .join('');
+
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Confidence timeline">
+    ${gridLines}
+    ${lines}
+    ${dots}
+    <text x="${padding}" y="${height - 8}" font-size="10" fill="#6B7280">0:00</text>
+    <text x="${width - padding}" y="${height - 8}" font-size="10" fill="#6B7280" text-anchor="end">${formatDuration(span / 1000)}</text>
+  </svg>`;
+};
+
+/**
+ * Self-contained HTML summary of one session, printable without network access.
+ */
+export const renderReport = (session, emotions) => {
+  const total = session.emotionCount;
+  const distributionRows = EMOTIONS.map(emotion => {
+    const { label, emoji, color } = getEmotionDefinition(emotion);
+    const count = session.emotionDistribution[emotion] || 0;
+    const percentage = total > 0 ? (count / total) * 100 : 0;
+    return `<tr>
+      <td><span class="swatch" style="background:${color}"></span>${emoji} ${escapeHtml(label)}</td>
+      <td class="num">${count}</td>
+      <td class="num">${percentage.toFixed(1)}%</td>
+      <td class="bar"><div style="width:${percentage.toFixed(1)}%;background:${color}"></div></td>
+    </tr>`;
+  }).join('');
+
+  const duration = session.duration ?? (Date.now() - session.start) / 1000;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Session report ${escapeHtml(session.id)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; }
+  .muted { color: #6B7280; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 1rem; margin-top: 1.5rem; }
+  .card { border: 1px solid #E5E7EB; border-radius: 0.75rem; padding: 0.75rem; }
+  .card .label { font-size: 0.75rem; color: #6B7280; }
+  .card .value { font-size: 1.25rem; font-weight: 600; text-transform: capitalize; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 0.35rem 0.5rem; border-bottom: 1px solid #F3F4F6; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; width: 5rem; }
+  td.bar div { height: 0.6rem; border-radius: 0.3rem; }
+  .swatch { display: inline-block; width: 0.7rem; height: 0.7rem; border-radius: 50%; margin-right: 0.5rem; }
+</style>
+</head>
+<body>
+  <h1>Emotion Session Report</h1>
+  <p class="muted">Session ${escapeHtml(session.id)} · started ${new Date(session.start).toISOString()} · ${escapeHtml(session.status)}</p>
+
+  <div class="cards">
+    <div class="card"><div class="label">Duration</div><div class="value">${formatDuration(duration)}</div></div>
+    <div class="card"><div class="label">Frames</div><div class="value">${total}</div></div>
+    <div class="card"><div class="label">Dominant Emotion</div><div class="value">${escapeHtml(session.peakEmotion)}</div></div>
+    <div class="card"><div class="label">Avg. Confidence</div><div class="value">${(session.confidenceAverage * 100).toFixed(1)}%</div></div>
+  </div>
+
+  <h2>Emotion Distribution</h2>
+  <table>${distributionRows}</table>
+
+  <h2>Confidence Timeline</h2>
+  ${renderTimeline(emotions)}
+
+  <p class="muted">Generated ${new Date().toISOString()}</p>
+</body>
+</html>
+`;
+};
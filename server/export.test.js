@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { EXPORT_FORMATS, getExportFormat } from './export.js';
+
+describe('getExportFormat', () => {
+  it('returns every supported format', () => {
+    Object.keys(EXPORT_FORMATS).forEach(format => {
+      assert.equal(getExportFormat(format), EXPORT_FORMATS[format]);
+    });
+  });
+
+  it('rejects unknown formats and inherited property names', () => {
+    ['xml', '', '__proto__', 'constructor', 'toString', 'hasOwnProperty'].forEach(format => {
+      assert.equal(getExportFormat(format), null, format);
+    });
+  });
+
+  it('rejects query values that are not strings', () => {
+    assert.equal(getExportFormat(['csv', 'json']), null);
+    assert.equal(getExportFormat({ csv: 'json' }), null);
+    assert.equal(getExportFormat(undefined), null);
+  });
+});
@@ -1,7 +1,21 @@
 import express from 'express';
 import { WebSocketServer } from 'ws';
 import http from 'http';
+import { randomUUID } from 'crypto';
 import cors from 'cors';
+import {
+  broadcastToRoom,
+  handleSignalingMessage,
+  leaveRoom,
+  send,
+} from './signaling.js';
+import { createStorage, storageConfigFromEnv } from './storage/index.js';
+import { csvHeader, getExportFormat, renderReport, toCsvRows, toNdjsonRows } from './export.js';
+import { computeStats, createStatsPublisher, findPeakEmotion } from './statsPush.js';
+import { computeAnalytics, parseAnalyticsQuery } from './analytics.js';
+import { createAlertEngine, createWebhookNotifier, parseAlertRule } from './alerts.js';
+import { EMOTIONS } from '../shared/emotions.js';
+import { ERROR_CODES, PROTOCOL_VERSION, checkProtocolVersion, parseClientMessage } from '../shared/protocol.js';
 
 const app = express();
 const server = http.createServer(app);
@@ -11,25 +25,71 @@ const wss = new WebSocketServer({ server });
 app.use(cors());
 app.use(express.json());
 
-// In-memory storage for emotion data
-let emotionData = [];
-let sessionStats = {
-  totalSessions: 0,
-  sessions: [],
-  emotionDistribution: {
-    happy: 0,
-    sad: 0,
-    angry: 0,
-    surprised: 0,
-    neutral: 0,
-  },
+// Storage backend for emotion frames and sessions
+const storage = await createStorage(storageConfigFromEnv());
+await storage.applyRetention();
+console.log(`💾 Using ${storage.type} storage`);
+
+// Sessions the previous run could not close, e.g. because it was killed
+const danglingSessions = await storage.closeOpenSessions();
+if (danglingSessions.length > 0) {
+  console.log(`Closed ${danglingSessions.length} sessions left open by the previous run`);
+}
+
+// Keep only the known emotions' scores from an already validated frame
+const sanitizeScores = (scores) => {
+  if (!scores) return undefined;
+  return Object.fromEntries(EMOTIONS.map(emotion => [emotion, scores[emotion]]));
 };
 
-// Clean up old data (keep last 1000 records)
-const cleanupData = () => {
-  if (emotionData.length > 1000) {
-    emotionData = emotionData.slice(-1000);
-  }
+// Apply the retention policy every this many stored frames
+const RETENTION_CHECK_INTERVAL = 100;
+let framesSinceRetention = 0;
+
+// Sessions whose connection dropped stay resumable for this long
+const SESSION_RESUME_GRACE_MS = parseInt(process.env.SESSION_RESUME_GRACE_MS) || 60000;
+const suspendedSessions = new Map();
+
+// Set once the server starts shutting down; sessions are then closed rather than suspended
+let shuttingDown = false;
+
+// Stats pushed to subscribed clients at most this often
+const STATS_PUSH_INTERVAL_MS = parseInt(process.env.STATS_PUSH_INTERVAL_MS) || 1000;
+const statsPublisher = createStatsPublisher({
+  storage,
+  getConnectionCount: () => wss.clients.size,
+  intervalMs: STATS_PUSH_INTERVAL_MS,
+});
+
+// Alerts are also POSTed here when set, e.g. http://localhost:9000/alerts
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL;
+const notifyWebhook = ALERT_WEBHOOK_URL ? createWebhookNotifier(ALERT_WEBHOOK_URL) : null;
+
+// Connected participant of each session, to deliver its alerts
+const sessionParticipants = new Map();
+
+const alertEngine = createAlertEngine({
+  onAlert: async (record) => {
+    const alert = await storage.appendAlert(record);
+    console.log(`🔔 Alert "${alert.ruleName}" for session ${alert.sessionId}`);
+
+    // The participant and everyone in their room, such as a facilitator, get a toast
+    const participant = sessionParticipants.get(alert.sessionId);
+    if (participant) {
+      send(participant, { type: 'alert', alert });
+      if (participant.roomId) broadcastToRoom(participant, { type: 'alert', alert });
+    }
+    await notifyWebhook?.(alert);
+  },
+});
+alertEngine.setRules(await storage.getAlertRules());
+
+// Record a finished session and return its duration in seconds
+const endSession = async (session, end) => {
+  alertEngine.removeSession(session.id);
+  const closed = await storage.closeSession(session.id, end);
+  statsPublisher.recordChange();
+  return closed ? closed.duration : (end - session.start) / 1000;
 };
 
 // Root route
@@ -41,8 +101,15 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/api/health',
       stats: '/api/stats',
+      analytics: '/api/analytics?scope=global|session|room&window=5m|1h|24h|custom&bucket=1m',
       emotions: '/api/emotions',
       sessions: '/api/sessions',
+      session: '/api/sessions/:id',
+      sessionEmotions: '/api/sessions/:id/emotions',
+      sessionTransitions: '/api/sessions/:id/transitions',
+      sessionExport: '/api/sessions/:id/export?format=csv|json|ndjson|html',
+      alerts: '/api/alerts?sessionId=&roomId=&limit=50',
+      alertRules: '/api/alert-rules',
       websocket: 'ws://localhost:8080'
     },
     timestamp: new Date().toISOString()
@@ -52,53 +119,247 @@ app.get('/', (req, res) => {
 // WebSocket connection handling
 wss.on('connection', (ws) => {
   console.log('New client connected');
+  statsPublisher.recordChange();
   
-  // Start a new session
-  const sessionStart = Date.now();
-  sessionStats.totalSessions += 1;
+  // Session is opened or resumed by the hello handshake, unless the client asks
+  // for the handshake alone. After the client ends it, another hello opens the
+  // next one on the same connection
+  let handshaken = false;
+  let session = null;
+  let sessionEnded = false;
+
+  // Video call participant, joins a room on request
+  const participant = { ws, participantId: randomUUID(), roomId: null };
+
+  const sendError = (code, message, seq) => {
+    send(participant, { type: 'error', code, message, ...(seq !== undefined && { seq }) });
+  };
+
+  const handleHello = async (message) => {
+    if (session && !sessionEnded) {
+      sendError(ERROR_CODES.INVALID_MESSAGE, 'Handshake already completed');
+      return;
+    }
+
+    const versionError = checkProtocolVersion(message.protocolVersion);
+    if (versionError) {
+      sendError(ERROR_CODES.UNSUPPORTED_VERSION, versionError);
+      ws.close(1002, 'Unsupported protocol version');
+      return;
+    }
+
+    // Handshake without a session, e.g. a client that is not detecting yet
+    if (message.openSession === false) {
+      if (handshaken) {
+        sendError(ERROR_CODES.INVALID_MESSAGE, 'Handshake already completed');
+        return;
+      }
+      handshaken = true;
+      send(participant, {
+        type: 'welcome',
+        protocolVersion: PROTOCOL_VERSION,
+        participantId: participant.participantId,
+      });
+      return;
+    }
+
+    // Only the participant the session belonged to can resume it, and only before
+    // joining a room, whose entry is keyed by the participant id resuming replaces
+    const candidate = !session && message.sessionId && suspendedSessions.get(message.sessionId);
+    const suspended = candidate &&
+      message.participantId === candidate.session.participantId &&
+      !participant.roomId &&
+      candidate;
+    if (suspended) {
+      // Reconnect within the grace period: pick the session up where it left off
+      clearTimeout(suspended.timer);
+      suspendedSessions.delete(message.sessionId);
+      session = suspended.session;
+      participant.participantId = session.participantId;
+    } else {
+      session = await storage.openSession({
+        start: Date.now(),
+        participantId: participant.participantId,
+      });
+      statsPublisher.recordChange();
+    }
+    handshaken = true;
+    sessionEnded = false;
+    sessionParticipants.set(session.id, participant);
+
+    send(participant, {
+      type: 'session-start',
+      protocolVersion: PROTOCOL_VERSION,
+      sessionId: session.id,
+      participantId: participant.participantId,
+      resumed: Boolean(suspended),
+    });
+  };
+
+  const handleEmotion = async ({ seq, payload }) => {
+    const frame = {
+      emotion: payload.emotion,
+      confidence: payload.confidence,
+      timestamp: payload.timestamp,
+      scores: sanitizeScores(payload.scores),
+      faceId: payload.faceId ?? undefined,
+      classifier: payload.classifier ? { id: payload.classifier.id, version: payload.classifier.version } : undefined,
+    };
+
+    // Store emotion data
+    await storage.appendEmotion({
+      ...frame,
+      sessionId: session.id,
+      participantId: participant.participantId,
+      roomId: participant.roomId,
+      receivedAt: Date.now(),
+    });
+    statsPublisher.recordEmotion(frame.emotion);
+    alertEngine.recordEmotion(
+      { sessionId: session.id, participantId: participant.participantId, roomId: participant.roomId },
+      frame
+    );
+
+    // Share the frame with the other participants in the room
+    if (participant.roomId) {
+      broadcastToRoom(participant, {
+        type: 'emotion',
+        participantId: participant.participantId,
+        roomId: participant.roomId,
+        payload: frame,
+      });
+    }
+
+    // Trim old data periodically
+    framesSinceRetention += 1;
+    if (framesSinceRetention >= RETENTION_CHECK_INTERVAL) {
+      framesSinceRetention = 0;
+      await storage.applyRetention();
+      statsPublisher.resync();
+    }
+
+    if (seq !== undefined && seq !== null) {
+      send(participant, { type: 'ack', seq });
+    }
+    
+    console.log(`Received emotion: ${frame.emotion} (${(frame.confidence * 100).toFixed(1)}%)`);
+  };
   
-  ws.on('message', (data) => {
-    try {
-      const emotion = JSON.parse(data.toString());
-      
-      // Validate emotion data
-      if (emotion.emotion && emotion.confidence && emotion.timestamp) {
-        // Store emotion data
-        emotionData.push({
-          ...emotion,
-          sessionId: sessionStats.totalSessions,
-          receivedAt: Date.now(),
-        });
-        
-        // Update emotion distribution
-        if (sessionStats.emotionDistribution.hasOwnProperty(emotion.emotion)) {
-          sessionStats.emotionDistribution[emotion.emotion] += 1;
-        }
-        
-        // Cleanup old data periodically
-        if (emotionData.length % 100 === 0) {
-          cleanupData();
+  const handleTransition = async ({ seq, payload }) => {
+    await storage.appendTransition({
+      from: payload.from,
+      to: payload.to,
+      at: payload.at,
+      duration: payload.duration,
+      faceId: payload.faceId ?? undefined,
+      sessionId: session.id,
+      participantId: participant.participantId,
+      roomId: participant.roomId,
+      receivedAt: Date.now(),
+    });
+    statsPublisher.recordTransition();
+
+    if (seq !== undefined && seq !== null) {
+      send(participant, { type: 'ack', seq });
+    }
+
+    console.log(`Emotion changed: ${payload.from} -> ${payload.to} after ${(payload.duration / 1000).toFixed(1)}s`);
+  };
+
+  const handleMessage = async (data) => {
+    const result = parseClientMessage(data.toString());
+    if (!result.ok) {
+      sendError(result.error.code, result.error.message, result.error.seq);
+      return;
+    }
+
+    const message = result.message;
+    if (!handshaken && message.type !== 'hello') {
+      sendError(ERROR_CODES.HANDSHAKE_REQUIRED, 'Send a hello message before anything else', message.seq);
+      return;
+    }
+    const sessionOpen = session && !sessionEnded;
+    if (!sessionOpen && ['emotion', 'transition', 'session-end'].includes(message.type)) {
+      sendError(ERROR_CODES.SESSION_ENDED, 'No session is open; send hello to start a new one', message.seq);
+      return;
+    }
+
+    switch (message.type) {
+      case 'hello':
+        await handleHello(message);
+        break;
+      case 'emotion':
+        await handleEmotion(message);
+        break;
+      case 'transition':
+        await handleTransition(message);
+        break;
+      case 'faces':
+        // A late report after session-end is dropped
+        if (sessionOpen) {
+          alertEngine.recordFaces(
+            { sessionId: session.id, participantId: participant.participantId, roomId: participant.roomId },
+            message
+          );
         }
-        
-        console.log(`Received emotion: ${emotion.emotion} (${(emotion.confidence * 100).toFixed(1)}%)`);
+        break;
+      case 'stats-subscribe':
+        statsPublisher.subscribe(participant);
+        break;
+      case 'stats-unsubscribe':
+        statsPublisher.unsubscribe(participant);
+        break;
+      case 'session-end': {
+        // The connection stays open for the call and stats until the next session
+        sessionEnded = true;
+        sessionParticipants.delete(session.id);
+        const duration = await endSession(session, Date.now());
+        send(participant, { type: 'session-end', sessionId: session.id, duration });
+        console.log(`Session ${session.id} ended by client. Duration: ${duration.toFixed(1)}s`);
+        break;
       }
-    } catch (error) {
-      console.error('Error parsing emotion data:', error);
+      default:
+        // WebRTC signaling shares the socket with emotion frames
+        handleSignalingMessage(participant, message);
     }
+  };
+
+  // Handle messages one at a time so storage writes keep their arrival order
+  let messageQueue = Promise.resolve();
+  ws.on('message', (data) => {
+    messageQueue = messageQueue
+      .then(() => handleMessage(data))
+      .catch((error) => console.error('Error handling message:', error));
   });
   
   ws.on('close', () => {
-    // Calculate session duration
-    const sessionEnd = Date.now();
-    const sessionDuration = (sessionEnd - sessionStart) / 1000; // in seconds
-    
-    sessionStats.sessions.push({
-      start: sessionStart,
-      end: sessionEnd,
-      duration: sessionDuration,
+    leaveRoom(participant);
+    statsPublisher.unsubscribe(participant);
+    statsPublisher.recordChange();
+    if (!session) return;
+    sessionParticipants.delete(session.id);
+    // No frames arrive while disconnected; a resumed session starts its counts over
+    alertEngine.removeSession(session.id);
+    if (sessionEnded || shuttingDown) return;
+
+    // Keep the session resumable for a while in case the client reconnects
+    const disconnectedAt = Date.now();
+    const suspendedSession = session;
+    suspendedSessions.set(session.id, {
+      session: suspendedSession,
+      disconnectedAt,
+      timer: setTimeout(async () => {
+        suspendedSessions.delete(suspendedSession.id);
+        try {
+          const duration = await endSession(suspendedSession, disconnectedAt);
+          console.log(`Session ${suspendedSession.id} closed. Duration: ${duration.toFixed(1)}s`);
+        } catch (error) {
+          console.error('Error closing session:', error);
+        }
+      }, SESSION_RESUME_GRACE_MS),
     });
-    
-    console.log(`Client disconnected. Session duration: ${sessionDuration.toFixed(1)}s`);
+
+    console.log(`Client disconnected. Session ${session.id} resumable for ${SESSION_RESUME_GRACE_MS / 1000}s`);
   });
   
   ws.on('error', (error) => {
@@ -108,82 +369,390 @@ wss.on('connection', (ws) => {
 
 // REST API endpoints
 
-// Get emotion statistics
-app.get('/api/stats', (req, res) => {
-  const now = Date.now();
-  const fiveMinutesAgo = now - (5 * 60 * 1000);
-  
-  // Filter recent emotion data
-  const recentEmotions = emotionData.filter(emotion => emotion.receivedAt > fiveMinutesAgo);
-  
-  // Calculate average confidence
-  const totalConfidence = recentEmotions.reduce((sum, emotion) => sum + emotion.confidence, 0);
-  const averageConfidence = recentEmotions.length > 0 ? totalConfidence / recentEmotions.length : 0;
-  
-  // Calculate average session duration
-  const totalDuration = sessionStats.sessions.reduce((sum, session) => sum + session.duration, 0);
-  const averageSessionDuration = sessionStats.sessions.length > 0 ? totalDuration / sessionStats.sessions.length : 0;
-  
-  // Find peak emotion
-  const emotionCounts = Object.entries(sessionStats.emotionDistribution);
-  const peakEmotion = emotionCounts.reduce((max, [emotion, count]) => 
-    count > max.count ? { emotion, count } : max, 
-    { emotion: 'neutral', count: 0 }
-  );
-  
-  const stats = {
-    totalSessions: sessionStats.totalSessions,
-    averageSessionDuration,
-    emotionDistribution: sessionStats.emotionDistribution,
-    peakEmotion: peakEmotion.emotion,
-    confidenceAverage: averageConfidence,
-    recentEmotionsCount: recentEmotions.length,
-    totalEmotionsCount: emotionData.length,
+// Parse an optional millisecond timestamp query parameter
+const parseTimestamp = (value) => (value ? Number(value) : undefined);
+
+// Paging cursors are opaque to clients
+const encodeCursor = (id) => Buffer.from(String(id)).toString('base64url');
+const decodeCursor = (cursor) => {
+  const id = Number(Buffer.from(String(cursor), 'base64url').toString());
+  return Number.isInteger(id) ? id : null;
+};
+
+const toEmotionResponse = (emotion) => ({
+  emotion: emotion.emotion,
+  confidence: emotion.confidence,
+  timestamp: emotion.timestamp,
+  receivedAt: emotion.receivedAt,
+  scores: emotion.scores,
+  faceId: emotion.faceId,
+  classifier: emotion.classifier,
+});
+
+const toTransitionResponse = (transition) => ({
+  from: transition.from,
+  to: transition.to,
+  at: transition.at,
+  duration: transition.duration,
+  faceId: transition.faceId,
+  receivedAt: transition.receivedAt,
+});
+
+// Session with its status and emotion summary
+const getSessionDetail = async (session) => {
+  const filter = { sessionId: session.id };
+  const [emotionDistribution, confidenceAverage, emotionCount, transitionCount] = await Promise.all([
+    storage.getEmotionDistribution(filter),
+    storage.getAverageConfidence(filter),
+    storage.countEmotions(filter),
+    storage.countTransitions(filter),
+  ]);
+
+  const status = session.end !== null
+    ? 'closed'
+    : suspendedSessions.has(session.id) ? 'suspended' : 'active';
+
+  return {
+    ...session,
+    status,
+    emotionCount,
+    emotionDistribution,
+    peakEmotion: findPeakEmotion(emotionDistribution),
+    confidenceAverage,
+    transitionCount,
   };
-  
-  res.json(stats);
+};
+
+// Walk a session's whole timeline page by page, oldest first
+const EXPORT_PAGE_SIZE = 1000;
+async function* iterateSessionEmotions(sessionId) {
+  let after;
+  do {
+    const page = await storage.getEmotionPage({ sessionId, after, limit: EXPORT_PAGE_SIZE });
+    yield page.emotions.map(toEmotionResponse);
+    after = page.nextCursor ?? undefined;
+  } while (after !== undefined);
+}
+
+// Get emotion statistics
+app.get('/api/stats', async (req, res) => {
+  try {
+    res.json(await computeStats(storage, wss.clients.size));
+  } catch (error) {
+    console.error('Error computing stats:', error);
+    res.status(500).json({ error: 'Failed to compute stats' });
+  }
+});
+
+// Get distribution, confidence, dominant emotion and time share for a time
+// window, over all data or one session or room
+app.get('/api/analytics', async (req, res) => {
+  const { error, options } = parseAnalyticsQuery(req.query);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  try {
+    if (options.scope === 'session' && !(await storage.getSession(options.filter.sessionId))) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    res.json(await computeAnalytics(storage, options));
+  } catch (error) {
+    console.error('Error computing analytics:', error);
+    res.status(500).json({ error: 'Failed to compute analytics' });
+  }
 });
 
-// Get raw emotion data
-app.get('/api/emotions', (req, res) => {
+// Get raw emotion data, optionally filtered by session and time range
+app.get('/api/emotions', async (req, res) => {
   const limit = parseInt(req.query.limit) || 100;
   const offset = parseInt(req.query.offset) || 0;
-  
-  const emotions = emotionData
-    .slice(-limit)
-    .slice(offset)
-    .map(emotion => ({
-      emotion: emotion.emotion,
-      confidence: emotion.confidence,
-      timestamp: emotion.timestamp,
-      receivedAt: emotion.receivedAt,
-    }));
-  
-  res.json({
-    emotions,
-    total: emotionData.length,
-    limit,
-    offset,
-  });
+  const filter = {
+    sessionId: req.query.sessionId || undefined,
+    from: parseTimestamp(req.query.from),
+    to: parseTimestamp(req.query.to),
+  };
+
+  try {
+    const { emotions, total } = await storage.getEmotions({ ...filter, limit, offset });
+
+    res.json({
+      emotions: emotions.map(toEmotionResponse),
+      total,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error('Error reading emotions:', error);
+    res.status(500).json({ error: 'Failed to read emotions' });
+  }
 });
 
 // Get session information
-app.get('/api/sessions', (req, res) => {
-  res.json({
-    totalSessions: sessionStats.totalSessions,
-    sessions: sessionStats.sessions.slice(-10), // Last 10 sessions
-    currentConnections: wss.clients.size,
-  });
+app.get('/api/sessions', async (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit) || 10, 100); // Last 10 sessions by default
+
+  try {
+    const [summary, sessions] = await Promise.all([
+      storage.getSessionSummary(),
+      storage.getSessions({ limit }),
+    ]);
+
+    res.json({
+      totalSessions: summary.totalSessions,
+      sessions: sessions.map(({ id, start, end, duration }) => ({ id, start, end, duration })),
+      currentConnections: wss.clients.size,
+    });
+  } catch (error) {
+    console.error('Error reading sessions:', error);
+    res.status(500).json({ error: 'Failed to read sessions' });
+  }
+});
+
+// Get one session with its emotion summary
+app.get('/api/sessions/:id', async (req, res) => {
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    res.json(await getSessionDetail(session));
+  } catch (error) {
+    console.error('Error reading session:', error);
+    res.status(500).json({ error: 'Failed to read session' });
+  }
+});
+
+// Get a session's emotion timeline, oldest first, with cursor paging
+app.get('/api/sessions/:id/emotions', async (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit) || 100, 1000);
+  const after = req.query.cursor ? decodeCursor(req.query.cursor) : undefined;
+  if (after === null) {
+    res.status(400).json({ error: 'Invalid cursor' });
+    return;
+  }
+
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    const { emotions, nextCursor } = await storage.getEmotionPage({
+      sessionId: session.id,
+      from: parseTimestamp(req.query.from),
+      to: parseTimestamp(req.query.to),
+      after,
+      limit,
+    });
+
+    res.json({
+      sessionId: session.id,
+      emotions: emotions.map(toEmotionResponse),
+      limit,
+      nextCursor: nextCursor !== null ? encodeCursor(nextCursor) : null,
+    });
+  } catch (error) {
+    console.error('Error reading session emotions:', error);
+    res.status(500).json({ error: 'Failed to read session emotions' });
+  }
+});
+
+// Get the emotion changes detected during a session, oldest first
+app.get('/api/sessions/:id/transitions', async (req, res) => {
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    const transitions = await storage.getTransitions({
+      sessionId: session.id,
+      from: parseTimestamp(req.query.from),
+      to: parseTimestamp(req.query.to),
+    });
+
+    res.json({
+      sessionId: session.id,
+      transitions: transitions.map(toTransitionResponse),
+    });
+  } catch (error) {
+    console.error('Error reading session transitions:', error);
+    res.status(500).json({ error: 'Failed to read session transitions' });
+  }
+});
+
+// Download a session's emotion data, or a printable HTML report
+app.get('/api/sessions/:id/export', async (req, res) => {
+  const format = req.query.format || 'json';
+  const exportFormat = getExportFormat(format);
+  if (!exportFormat) {
+    res.status(400).json({ error: `Unsupported export format: ${format}` });
+    return;
+  }
+
+  try {
+    const session = await storage.getSession(req.params.id);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    const filename = format === 'html'
+      ? `session-${session.id}-report.html`
+      : `session-${session.id}.${exportFormat.extension}`;
+    res.attachment(filename);
+    res.type(exportFormat.contentType);
+
+    // CSV and NDJSON are streamed a page at a time; JSON and the report need the whole timeline
+    if (format === 'csv' || format === 'ndjson') {
+      if (format === 'csv') res.write(csvHeader());
+      for await (const emotions of iterateSessionEmotions(session.id)) {
+        res.write(format === 'csv' ? toCsvRows(emotions) : toNdjsonRows(emotions));
+      }
+      res.end();
+      return;
+    }
+
+    const detail = await getSessionDetail(session);
+    const emotions = [];
+    for await (const page of iterateSessionEmotions(session.id)) {
+      emotions.push(...page);
+    }
+
+    if (format === 'html') {
+      res.send(renderReport(detail, emotions));
+    } else {
+      const transitions = (await storage.getTransitions({ sessionId: session.id })).map(toTransitionResponse);
+      res.send(JSON.stringify({ session: detail, emotions, transitions }, null, 2));
+    }
+  } catch (error) {
+    console.error('Error exporting session:', error);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ error: 'Failed to export session' });
+    }
+  }
+});
+
+// Get alerts, newest first, optionally for one session or room
+app.get('/api/alerts', async (req, res) => {
+  const limit = Math.min(parseInt(req.query.limit) || 50, 500);
+
+  try {
+    const alerts = await storage.getAlerts({
+      sessionId: req.query.sessionId || undefined,
+      roomId: req.query.roomId || undefined,
+      from: parseTimestamp(req.query.from),
+      to: parseTimestamp(req.query.to),
+      limit,
+    });
+    res.json({ alerts, limit });
+  } catch (error) {
+    console.error('Error reading alerts:', error);
+    res.status(500).json({ error: 'Failed to read alerts' });
+  }
+});
+
+// Reload the rules into the engine after a change
+const reloadAlertRules = async () => {
+  alertEngine.setRules(await storage.getAlertRules());
+};
+
+// List the alert rules
+app.get('/api/alert-rules', async (req, res) => {
+  try {
+    res.json({ rules: await storage.getAlertRules() });
+  } catch (error) {
+    console.error('Error reading alert rules:', error);
+    res.status(500).json({ error: 'Failed to read alert rules' });
+  }
+});
+
+// Add an alert rule
+app.post('/api/alert-rules', async (req, res) => {
+  const { error, rule } = parseAlertRule(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  try {
+    const created = await storage.createAlertRule(rule);
+    await reloadAlertRules();
+    res.status(201).json(created);
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({ error: 'Failed to create alert rule' });
+  }
+});
+
+// Replace an alert rule
+app.put('/api/alert-rules/:id', async (req, res) => {
+  const { error, rule } = parseAlertRule(req.body);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  try {
+    const updated = await storage.updateAlertRule(req.params.id, rule);
+    if (!updated) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    await reloadAlertRules();
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({ error: 'Failed to update alert rule' });
+  }
+});
+
+// Remove an alert rule; its past alerts are kept
+app.delete('/api/alert-rules/:id', async (req, res) => {
+  try {
+    if (!(await storage.deleteAlertRule(req.params.id))) {
+      res.status(404).json({ error: 'Alert rule not found' });
+      return;
+    }
+    await reloadAlertRules();
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({ error: 'Failed to delete alert rule' });
+  }
 });
 
 // Health check endpoint
-app.get('/api/health', (req, res) => {
-  res.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    connections: wss.clients.size,
-    emotionDataCount: emotionData.length,
-  });
+app.get('/api/health', async (req, res) => {
+  try {
+    res.json({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      connections: wss.clients.size,
+      storage: storage.type,
+      emotionDataCount: await storage.countEmotions(),
+    });
+  } catch (error) {
+    // Storage is unreachable; report it instead of leaving the check hanging
+    console.error('Error checking health:', error);
+    res.status(503).json({
+      status: 'unhealthy',
+      timestamp: new Date().toISOString(),
+      storage: storage.type,
+      error: 'Storage unavailable',
+    });
+  }
 });
 
 // Start server
@@ -196,10 +765,34 @@ server.listen(PORT, () => {
 });
 
 // Graceful shutdown
-process.on('SIGINT', () => {
+const shutdown = async () => {
+  if (shuttingDown) return;
+  shuttingDown = true;
   console.log('\n🛑 Shutting down server...');
-  server.close(() => {
+  statsPublisher.close();
+
+  // Close every open session so it is in the history after a restart: a
+  // suspended one at its disconnect, a connected one now
+  try {
+    const suspendedCount = suspendedSessions.size;
+    for (const { session, disconnectedAt, timer } of suspendedSessions.values()) {
+      clearTimeout(timer);
+      await storage.closeSession(session.id, disconnectedAt);
+    }
+    suspendedSessions.clear();
+    const closed = await storage.closeOpenSessions(Date.now());
+    console.log(`Closed ${closed.length} connected and ${suspendedCount} suspended sessions`);
+  } catch (error) {
+    console.error('Error closing sessions:', error);
+  }
+
+  wss.clients.forEach(ws => ws.close(1001, 'Server shutting down'));
+  server.close(async () => {
+    await storage.close();
     console.log('✅ Server closed successfully');
     process.exit(0);
   });
-});
\ No newline at end of file
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
\ No newline at end of file
@@ -7,6 +7,8 @@ from fastapi import FastAPI, WebSocket, WebSocketDisconnect
 from fastapi.middleware.cors import CORSMiddleware
 import json
 import asyncio
+import re
+from pathlib import Path
 from datetime import datetime, timedelta
 from typing import Dict, List, Optional
 import logging
@@ -26,18 +28,18 @@ app.add_middleware(
     allow_headers=["*"],
 )
 
+# Emotion ids from the shared emotion registry, in display order
+EMOTIONS = re.findall(
+    r"\{ id: '(\w+)'",
+    (Path(__file__).resolve().parent.parent / "shared" / "emotions.js").read_text(encoding="utf-8"),
+)
+
 # In-memory storage (in production, use Redis or a database)
 emotion_data: List[Dict] = []
 session_stats = {
     "total_sessions": 0,
     "sessions": [],
-    "emotion_distribution": {
-        "happy": 0,
-        "sad": 0,
-        "angry": 0,
-        "surprised": 0,
-        "neutral": 0,
-    },
+    "emotion_distribution": {emotion: 0 for emotion in EMOTIONS},
 }
 
 # Active WebSocket connections
@@ -153,6 +155,7 @@ async def get_emotions(limit: int = 100, offset: int = 0):
                 "confidence": e["confidence"],
                 "timestamp": e["timestamp"],
                 "receivedAt": e["received_at"],
+                "scores": e.get("scores"),
             }
             for e in emotions
         ],
@@ -0,0 +1,89 @@
+import { WebSocket } from 'ws';
+import { ERROR_CODES } from '../shared/protocol.js';
+
+// Rooms keyed by room id, each holding the connected participants
+const rooms = new Map();
+
+export const send = (participant, message) => {
+  if (participant.ws.readyState === WebSocket.OPEN) {
+    participant.ws.send(JSON.stringify(message));
+  }
+};
+
+// Send a message to everyone in the participant's room except the participant
+export const broadcastToRoom = (participant, message) => {
+  const room = rooms.get(participant.roomId);
+  if (!room) return;
+
+  for (const peer of room.values()) {
+    if (peer !== participant) {
+      send(peer, message);
+    }
+  }
+};
+
+export const leaveRoom = (participant) => {
+  const room = rooms.get(participant.roomId);
+  if (!room) return;
+
+  room.delete(participant.participantId);
+  broadcastToRoom(participant, { type: 'peer-left', participantId: participant.participantId });
+  console.log(`Participant ${participant.participantId} left room "${participant.roomId}"`);
+
+  if (room.size === 0) {
+    rooms.delete(participant.roomId);
+  }
+  participant.roomId = null;
+};
+
+const joinRoom = (participant, roomId) => {
+  if (participant.roomId) {
+    leaveRoom(participant);
+  }
+
+  const id = roomId.trim();
+  if (!rooms.has(id)) {
+    rooms.set(id, new Map());
+  }
+  const room = rooms.get(id);
+  const peers = [...room.keys()];
+
+  room.set(participant.participantId, participant);
+  participant.roomId = id;
+
+  // The newcomer sends offers to everyone already in the room
+  send(participant, {
+    type: 'joined',
+    roomId: id,
+    participantId: participant.participantId,
+    peers,
+  });
+  broadcastToRoom(participant, { type: 'peer-joined', participantId: participant.participantId });
+
+  console.log(`Participant ${participant.participantId} joined room "${id}" (${room.size} in room)`);
+};
+
+// Relay an SDP offer/answer or ICE candidate to another participant in the same room
+const relaySignal = (participant, { to, signal }) => {
+  const peer = rooms.get(participant.roomId)?.get(to);
+  if (!peer) {
+    send(participant, { type: 'error', code: ERROR_CODES.UNKNOWN_PEER, message: `Unknown peer: ${to}` });
+    return;
+  }
+
+  send(peer, { type: 'signal', from: participant.participantId, signal });
+};
+
+export const handleSignalingMessage = (participant, message) => {
+  switch (message.type) {
+    case 'join':
+      joinRoom(participant, message.roomId);
+      break;
+    case 'leave':
+      leaveRoom(participant);
+      break;
+    case 'signal':
+      relaySignal(participant, message);
+      break;
+  }
+};
@@ -0,0 +1,165 @@
+import { emotionRecord } from '../shared/emotions.js';
+import { send } from './signaling.js';
+
+// Frames received within this window count towards the rolling confidence
+const RECENT_WINDOW_MS = 5 * 60 * 1000;
+
+// Most frequent emotion in a distribution, neutral when empty
+export const findPeakEmotion = (distribution) =>
+  Object.entries(distribution).reduce((max, [emotion, count]) =>
+    count > max.count ? { emotion, count } : max,
+    { emotion: 'neutral', count: 0 }
+  ).emotion;
+
+// Stats over all stored data, as served by GET /api/stats
+export const computeStats = async (storage, activeConnections) => {
+  const recent = { from: Date.now() - RECENT_WINDOW_MS };
+
+  const [emotionDistribution, averageConfidence, summary, recentEmotionsCount, totalEmotionsCount, transitionCount] =
+    await Promise.all([
+      storage.getEmotionDistribution(),
+      storage.getAverageConfidence(recent),
+      storage.getSessionSummary(),
+      storage.countEmotions(recent),
+      storage.countEmotions(),
+      storage.countTransitions(),
+    ]);
+
+  return {
+    totalSessions: summary.totalSessions,
+    averageSessionDuration: summary.averageSessionDuration,
+    emotionDistribution,
+    peakEmotion: findPeakEmotion(emotionDistribution),
+    confidenceAverage: averageConfidence,
+    recentEmotionsCount,
+    totalEmotionsCount,
+    transitionCount,
+    activeConnections,
+  };
+};
+
+/**
+ * Pushes stats to subscribed clients whenever data changes, at most once per
+ * `intervalMs`. A new subscriber first receives a full `stats-snapshot`; after
+ * that each `stats-push` carries the frames and transitions stored since the
+ * previous push along with the current rolling confidence, session summary
+ * and connection count.
+ */
+export const createStatsPublisher = ({ storage, getConnectionCount, intervalMs }) => {
+  const subscribers = new Set();
+  // Subscribed since the last push, still waiting for their snapshot
+  const awaitingSnapshot = new Set();
+  let distribution = emotionRecord();
+  let transitions = 0;
+  let changed = false;
+  let lastPushAt = 0;
+  let timer = null;
+  // Set while a push awaits storage, so pushes never overlap and deltas stay in order
+  let pushing = false;
+  let closed = false;
+
+  const sendUpdates = async () => {
+    if (!changed) return;
+    changed = false;
+
+    const delta = { distribution, transitions };
+    distribution = emotionRecord();
+    transitions = 0;
+    const newSubscribers = [...awaitingSnapshot];
+    awaitingSnapshot.clear();
+    if (subscribers.size === 0) return;
+
+    try {
+      const activeConnections = getConnectionCount();
+      if (newSubscribers.length > 0) {
+        const stats = await computeStats(storage, activeConnections);
+        newSubscribers.forEach(participant => send(participant, { type: 'stats-snapshot', stats }));
+      }
+
+      const current = [...subscribers].filter(participant => !newSubscribers.includes(participant));
+      if (current.length === 0) return;
+
+      const recent = { from: Date.now() - RECENT_WINDOW_MS };
+      const [confidenceAverage, recentEmotionsCount, summary] = await Promise.all([
+        storage.getAverageConfidence(recent),
+        storage.countEmotions(recent),
+        storage.getSessionSummary(),
+      ]);
+      const message = {
+        type: 'stats-push',
+        delta: {
+          ...delta,
+          confidenceAverage,
+          recentEmotionsCount,
+          totalSessions: summary.totalSessions,
+          averageSessionDuration: summary.averageSessionDuration,
+          activeConnections,
+        },
+      };
+      current.forEach(participant => send(participant, message));
+    } catch (error) {
+      console.error('Error pushing stats:', error);
+    }
+  };
+
+  const push = async () => {
+    timer = null;
+    lastPushAt = Date.now();
+    pushing = true;
+    try {
+      await sendUpdates();
+    } finally {
+      pushing = false;
+      // Changes made during the push go out together in one follow-up push
+      if (changed) schedule();
+    }
+  };
+
+  // Push soon, but no sooner than intervalMs after the previous push
+  const schedule = () => {
+    changed = true;
+    if (timer || pushing || closed) return;
+    timer = setTimeout(push, Math.max(0, lastPushAt + intervalMs - Date.now()));
+  };
+
+  return {
+    subscribe(participant) {
+      subscribers.add(participant);
+      awaitingSnapshot.add(participant);
+      schedule();
+    },
+
+    unsubscribe(participant) {
+      subscribers.delete(participant);
+      awaitingSnapshot.delete(participant);
+    },
+
+    recordEmotion(emotion) {
+      distribution[emotion] += 1;
+      schedule();
+    },
+
+    recordTransition() {
+      transitions += 1;
+      schedule();
+    },
+
+    // Sessions opened or closed, or clients connected or disconnected
+    recordChange() {
+      schedule();
+    },
+
+    // Stored data changed in ways deltas cannot express, e.g. retention removed
+    // frames; every subscriber gets a fresh snapshot
+    resync() {
+      subscribers.forEach(participant => awaitingSnapshot.add(participant));
+      schedule();
+    },
+
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
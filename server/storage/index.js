@@ -0,0 +1,72 @@
+import { createMemoryStorage } from './memoryStorage.js';
+import { createSqliteStorage } from './sqliteStorage.js';
+
+/*
+ * Every storage backend implements the same async interface:
+ *
+ *   appendEmotion(record)            store one emotion frame
+ *   appendTransition(record)         store one emotion transition
+ *   openSession({ start, participantId }) -> session with a new UUID
+ *   closeSession(id, end)            -> closed session, or null if unknown
+ *   closeOpenSessions(end?)          -> sessions that were still open, now closed at `end`,
+ *                                    or without it at their last frame's receivedAt
+ *                                    (their start when they have no frames)
+ *   getEmotions({ ...filter, limit, offset }) -> { emotions, total }
+ *   getEmotionPage({ ...filter, after, limit }) -> { emotions, nextCursor }
+ *   getTransitions(filter)           -> transitions, oldest first
+ *   getSession(id)                   -> session, or null if unknown
+ *   getSessions({ limit })           -> closed sessions, oldest first
+ *   getEmotionDistribution(filter)   -> stored frame count per emotion
+ *   getAverageConfidence(filter)     -> mean confidence, 0 when empty
+ *   getSessionSummary()              -> { totalSessions, averageSessionDuration }
+ *   countEmotions(filter)            -> number of stored frames
+ *   countTransitions(filter)         -> number of stored transitions
+ *   appendAlert(record)              -> stored alert with a new id
+ *   getAlerts({ ...filter, limit })  -> alerts, newest first
+ *   getAlertRules()                  -> alert rules, oldest first
+ *   createAlertRule(rule)            -> rule with a new UUID and createdAt
+ *   updateAlertRule(id, rule)        -> updated rule, or null if unknown
+ *   deleteAlertRule(id)              -> whether the rule existed
+ *   applyRetention()                 trim data according to the retention policy; the
+ *                                    record limit applies to frames, transitions and
+ *                                    alerts separately, and never to alert rules
+ *   close()
+ *
+ * A filter is { sessionId, roomId, from, to }, where from/to bound receivedAt in ms;
+ * an alert's receivedAt is when it fired.
+ * `offset` skips that many of the newest matching frames. Stored frames carry a
+ * monotonically increasing `id`; getEmotionPage returns frames with an id greater
+ * than `after`, oldest first, and the id to pass as `after` for the next page.
+ */
+
+const parseNumber = (value) => {
+  const number = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(number) ? number : undefined;
+};
+
+// Read the storage configuration from environment variables
+export const storageConfigFromEnv = (env = process.env) => {
+  const type = env.STORAGE || 'memory';
+  const maxAgeHours = parseNumber(env.RETENTION_MAX_AGE_HOURS);
+
+  return {
+    type,
+    sqlitePath: env.SQLITE_PATH || './data/emotions.db',
+    retention: {
+      // In-memory storage keeps the last 1000 frames by default; SQLite keeps everything
+      maxRecords: parseNumber(env.RETENTION_MAX_RECORDS) ?? (type === 'memory' ? 1000 : undefined),
+      maxAgeMs: maxAgeHours !== undefined ? maxAgeHours * 60 * 60 * 1000 : undefined,
+    },
+  };
+};
+
+export const createStorage = async (config) => {
+  switch (config.type) {
+    case 'memory':
+      return createMemoryStorage(config);
+    case 'sqlite':
+      return createSqliteStorage(config);
+    default:
+      throw new Error(`Unknown storage type: ${config.type}`);
+  }
+};
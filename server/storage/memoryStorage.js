@@ -0,0 +1,182 @@
+import { randomUUID } from 'crypto';
+import { emotionRecord } from '../../shared/emotions.js';
+
+const matches = (record, { sessionId, roomId, from, to } = {}) =>
+  (sessionId === undefined || record.sessionId === sessionId) &&
+  (roomId === undefined || record.roomId === roomId) &&
+  (from === undefined || record.receivedAt >= from) &&
+  (to === undefined || record.receivedAt <= to);
+
+const isUnfiltered = ({ sessionId, roomId, from, to } = {}) =>
+  sessionId === undefined && roomId === undefined && from === undefined && to === undefined;
+
+/**
+ * In-memory storage. Data is lost on restart.
+ */
+export const createMemoryStorage = ({ retention }) => {
+  let emotions = [];
+  let nextEmotionId = 1;
+  let transitions = [];
+  let nextTransitionId = 1;
+  let alerts = [];
+  let nextAlertId = 1;
+  const alertRules = new Map();
+  const sessions = new Map();
+
+  const applyRetention = async () => {
+    if (retention.maxAgeMs) {
+      const cutoff = Date.now() - retention.maxAgeMs;
+      emotions = emotions.filter(record => record.receivedAt >= cutoff);
+      transitions = transitions.filter(record => record.receivedAt >= cutoff);
+      alerts = alerts.filter(record => record.receivedAt >= cutoff);
+    }
+    if (retention.maxRecords && emotions.length > retention.maxRecords) {
+      emotions = emotions.slice(-retention.maxRecords);
+    }
+    if (retention.maxRecords && transitions.length > retention.maxRecords) {
+      transitions = transitions.slice(-retention.maxRecords);
+    }
+    if (retention.maxRecords && alerts.length > retention.maxRecords) {
+      alerts = alerts.slice(-retention.maxRecords);
+    }
+  };
+
+  return {
+    type: 'memory',
+
+    async appendEmotion(record) {
+      emotions.push({ ...record, id: nextEmotionId++ });
+    },
+
+    async appendTransition(record) {
+      transitions.push({ ...record, id: nextTransitionId++ });
+    },
+
+    async openSession({ start, participantId }) {
+      const session = { id: randomUUID(), participantId, start, end: null, duration: null };
+      sessions.set(session.id, session);
+      return { ...session };
+    },
+
+    async closeSession(id, end) {
+      const session = sessions.get(id);
+      if (!session) return null;
+      session.end = end;
+      session.duration = (end - session.start) / 1000;
+      return { ...session };
+    },
+
+    async closeOpenSessions(end) {
+      const open = [...sessions.values()].filter(session => session.end === null);
+      return open.map(session => {
+        const frames = emotions.filter(record => record.sessionId === session.id);
+        session.end = end ?? (frames.length > 0 ? frames[frames.length - 1].receivedAt : session.start);
+        session.duration = (session.end - session.start) / 1000;
+        return { ...session };
+      });
+    },
+
+    async getEmotions({ limit, offset = 0, ...filter } = {}) {
+      const matching = emotions.filter(record => matches(record, filter));
+      // Offset counts back from the newest record; results stay in chronological order
+      const end = Math.max(0, matching.length - offset);
+      const start = limit === undefined ? 0 : Math.max(0, end - limit);
+      return { emotions: matching.slice(start, end), total: matching.length };
+    },
+
+    async getEmotionPage({ after, limit, ...filter }) {
+      const matching = emotions.filter(record =>
+        matches(record, filter) && (after === undefined || record.id > after)
+      );
+      const page = matching.slice(0, limit);
+      return {
+        emotions: page,
+        nextCursor: matching.length > limit ? page[page.length - 1].id : null,
+      };
+    },
+
+    async getTransitions(filter = {}) {
+      return transitions.filter(record => matches(record, filter));
+    },
+
+    async getSession(id) {
+      const session = sessions.get(id);
+      return session ? { ...session } : null;
+    },
+
+    async getSessions({ limit } = {}) {
+      const closed = [...sessions.values()].filter(session => session.end !== null);
+      return (limit === undefined ? closed : closed.slice(-limit)).map(session => ({ ...session }));
+    },
+
+    async getEmotionDistribution(filter = {}) {
+      return emotions
+        .filter(record => matches(record, filter))
+        .reduce((acc, record) => {
+          acc[record.emotion] += 1;
+          return acc;
+        }, emotionRecord());
+    },
+
+    async getAverageConfidence(filter = {}) {
+      const matching = emotions.filter(record => matches(record, filter));
+      if (matching.length === 0) return 0;
+      return matching.reduce((sum, record) => sum + record.confidence, 0) / matching.length;
+    },
+
+    async getSessionSummary() {
+      const closed = [...sessions.values()].filter(session => session.end !== null);
+      const totalDuration = closed.reduce((sum, session) => sum + session.duration, 0);
+      return {
+        totalSessions: sessions.size,
+        averageSessionDuration: closed.length > 0 ? totalDuration / closed.length : 0,
+      };
+    },
+
+    async countEmotions(filter = {}) {
+      if (isUnfiltered(filter)) return emotions.length;
+      return emotions.filter(record => matches(record, filter)).length;
+    },
+
+    async countTransitions(filter = {}) {
+      return transitions.filter(record => matches(record, filter)).length;
+    },
+
+    async appendAlert(record) {
+      const alert = { ...record, id: nextAlertId++ };
+      alerts.push(alert);
+      return { ...alert };
+    },
+
+    async getAlerts({ limit, ...filter } = {}) {
+      const matching = alerts.filter(record => matches(record, filter)).reverse();
+      return limit === undefined ? matching : matching.slice(0, limit);
+    },
+
+    async getAlertRules() {
+      return [...alertRules.values()].map(rule => ({ ...rule }));
+    },
+
+    async createAlertRule(rule) {
+      const created = { ...rule, id: randomUUID(), createdAt: Date.now() };
+      alertRules.set(created.id, created);
+      return { ...created };
+    },
+
+    async updateAlertRule(id, rule) {
+      const existing = alertRules.get(id);
+      if (!existing) return null;
+      const updated = { ...rule, id, createdAt: existing.createdAt };
+      alertRules.set(id, updated);
+      return { ...updated };
+    },
+
+    async deleteAlertRule(id) {
+      return alertRules.delete(id);
+    },
+
+    applyRetention,
+
+    async close() {},
+  };
+};
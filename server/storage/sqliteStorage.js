@@ -0,0 +1,444 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { emotionRecord } from '../../shared/emotions.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    participant_id TEXT,
+    start INTEGER NOT NULL,
+    end INTEGER,
+    duration REAL
+  );
+
+  CREATE TABLE IF NOT EXISTS emotions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT,
+    participant_id TEXT,
+    room_id TEXT,
+    emotion TEXT NOT NULL,
+    confidence REAL NOT NULL,
+    timestamp INTEGER NOT NULL,
+    received_at INTEGER NOT NULL,
+    scores TEXT,
+    face_id INTEGER,
+    classifier_id TEXT,
+    classifier_version TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT,
+    participant_id TEXT,
+    room_id TEXT,
+    from_emotion TEXT NOT NULL,
+    to_emotion TEXT NOT NULL,
+    at INTEGER NOT NULL,
+    duration REAL NOT NULL,
+    received_at INTEGER NOT NULL,
+    face_id INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    rule_id TEXT NOT NULL,
+    rule_name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    session_id TEXT,
+    participant_id TEXT,
+    room_id TEXT,
+    face_id INTEGER,
+    emotion TEXT,
+    confidence REAL,
+    started_at INTEGER NOT NULL,
+    duration REAL NOT NULL,
+    received_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS alert_rules (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    emotions TEXT NOT NULL,
+    min_confidence REAL NOT NULL,
+    duration REAL NOT NULL,
+    enabled INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_emotions_received_at ON emotions (received_at);
+  CREATE INDEX IF NOT EXISTS idx_emotions_session ON emotions (session_id, received_at);
+  CREATE INDEX IF NOT EXISTS idx_emotions_room ON emotions (room_id, received_at);
+  CREATE INDEX IF NOT EXISTS idx_transitions_session ON transitions (session_id, received_at);
+  CREATE INDEX IF NOT EXISTS idx_alerts_session ON alerts (session_id, received_at);
+`;
+
+// Columns added after the first release, created on databases that predate them
+const MIGRATIONS = [
+  { table: 'emotions', column: 'face_id', definition: 'INTEGER' },
+  { table: 'transitions', column: 'face_id', definition: 'INTEGER' },
+  { table: 'emotions', column: 'classifier_id', definition: 'TEXT' },
+  { table: 'emotions', column: 'classifier_version', definition: 'TEXT' },
+];
+
+const migrate = (db) => {
+  for (const { table, column, definition } of MIGRATIONS) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+    if (!columns.some(({ name }) => name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+};
+
+// Build a WHERE clause for the shared { sessionId, roomId, from, to } filter
+const buildFilter = ({ sessionId, roomId, from, to } = {}) => {
+  const conditions = [];
+  const params = {};
+  if (sessionId !== undefined) {
+    conditions.push('session_id = @sessionId');
+    params.sessionId = sessionId;
+  }
+  if (roomId !== undefined) {
+    conditions.push('room_id = @roomId');
+    params.roomId = roomId;
+  }
+  if (from !== undefined) {
+    conditions.push('received_at >= @from');
+    params.from = from;
+  }
+  if (to !== undefined) {
+    conditions.push('received_at <= @to');
+    params.to = to;
+  }
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+};
+
+const toEmotionRecord = (row) => ({
+  id: row.id,
+  emotion: row.emotion,
+  confidence: row.confidence,
+  timestamp: row.timestamp,
+  scores: row.scores ? JSON.parse(row.scores) : undefined,
+  faceId: row.face_id ?? undefined,
+  classifier: row.classifier_id ? { id: row.classifier_id, version: row.classifier_version } : undefined,
+  sessionId: row.session_id,
+  participantId: row.participant_id,
+  roomId: row.room_id,
+  receivedAt: row.received_at,
+});
+
+const toTransitionRecord = (row) => ({
+  id: row.id,
+  from: row.from_emotion,
+  to: row.to_emotion,
+  at: row.at,
+  duration: row.duration,
+  faceId: row.face_id ?? undefined,
+  sessionId: row.session_id,
+  participantId: row.participant_id,
+  roomId: row.room_id,
+  receivedAt: row.received_at,
+});
+
+const toAlertRecord = (row) => ({
+  id: row.id,
+  ruleId: row.rule_id,
+  ruleName: row.rule_name,
+  type: row.type,
+  sessionId: row.session_id,
+  participantId: row.participant_id,
+  roomId: row.room_id,
+  faceId: row.face_id ?? undefined,
+  emotion: row.emotion ?? undefined,
+  confidence: row.confidence ?? undefined,
+  startedAt: row.started_at,
+  duration: row.duration,
+  receivedAt: row.received_at,
+});
+
+const toAlertRule = (row) => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  emotions: JSON.parse(row.emotions),
+  minConfidence: row.min_confidence,
+  duration: row.duration,
+  enabled: Boolean(row.enabled),
+  createdAt: row.created_at,
+});
+
+const toSession = (row) => ({
+  id: row.id,
+  participantId: row.participant_id,
+  start: row.start,
+  end: row.end,
+  duration: row.duration,
+});
+
+/**
+ * SQLite storage backed by a single database file, so history survives restarts.
+ */
+export const createSqliteStorage = async ({ retention, sqlitePath }) => {
+  // Native module, only loaded when this backend is selected
+  const { default: Database } = await import('better-sqlite3');
+
+  fs.mkdirSync(path.dirname(sqlitePath), { recursive: true });
+  const db = new Database(sqlitePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  migrate(db);
+
+  const statements = {
+    insertEmotion: db.prepare(`
+      INSERT INTO emotions (session_id, participant_id, room_id, emotion, confidence, timestamp, received_at, scores, face_id, classifier_id, classifier_version)
+      VALUES (@sessionId, @participantId, @roomId, @emotion, @confidence, @timestamp, @receivedAt, @scores, @faceId, @classifierId, @classifierVersion)
+    `),
+    insertTransition: db.prepare(`
+      INSERT INTO transitions (session_id, participant_id, room_id, from_emotion, to_emotion, at, duration, received_at, face_id)
+      VALUES (@sessionId, @participantId, @roomId, @from, @to, @at, @duration, @receivedAt, @faceId)
+    `),
+    insertSession: db.prepare(`
+      INSERT INTO sessions (id, participant_id, start)
+      VALUES (@id, @participantId, @start)
+    `),
+    closeSession: db.prepare('UPDATE sessions SET end = @end, duration = (@end - start) / 1000.0 WHERE id = @id'),
+    getSession: db.prepare('SELECT * FROM sessions WHERE id = ?'),
+    insertAlert: db.prepare(`
+      INSERT INTO alerts (rule_id, rule_name, type, session_id, participant_id, room_id, face_id, emotion, confidence, started_at, duration, received_at)
+      VALUES (@ruleId, @ruleName, @type, @sessionId, @participantId, @roomId, @faceId, @emotion, @confidence, @startedAt, @duration, @receivedAt)
+    `),
+    getAlert: db.prepare('SELECT * FROM alerts WHERE id = ?'),
+    insertAlertRule: db.prepare(`
+      INSERT INTO alert_rules (id, name, type, emotions, min_confidence, duration, enabled, created_at)
+      VALUES (@id, @name, @type, @emotions, @minConfidence, @duration, @enabled, @createdAt)
+    `),
+    updateAlertRule: db.prepare(`
+      UPDATE alert_rules
+      SET name = @name, type = @type, emotions = @emotions, min_confidence = @minConfidence, duration = @duration, enabled = @enabled
+      WHERE id = @id
+    `),
+    getAlertRule: db.prepare('SELECT * FROM alert_rules WHERE id = ?'),
+    deleteAlertRule: db.prepare('DELETE FROM alert_rules WHERE id = ?'),
+  };
+
+  const toRuleParams = (id, rule) => ({
+    id,
+    name: rule.name,
+    type: rule.type,
+    emotions: JSON.stringify(rule.emotions),
+    minConfidence: rule.minConfidence,
+    duration: rule.duration,
+    enabled: rule.enabled ? 1 : 0,
+  });
+
+  return {
+    type: 'sqlite',
+
+    async appendEmotion(record) {
+      statements.insertEmotion.run({
+        sessionId: record.sessionId ?? null,
+        participantId: record.participantId ?? null,
+        roomId: record.roomId ?? null,
+        emotion: record.emotion,
+        confidence: record.confidence,
+        timestamp: record.timestamp,
+        receivedAt: record.receivedAt,
+        scores: record.scores ? JSON.stringify(record.scores) : null,
+        faceId: record.faceId ?? null,
+        classifierId: record.classifier?.id ?? null,
+        classifierVersion: record.classifier?.version ?? null,
+      });
+    },
+
+    async appendTransition(record) {
+      statements.insertTransition.run({
+        sessionId: record.sessionId ?? null,
+        participantId: record.participantId ?? null,
+        roomId: record.roomId ?? null,
+        from: record.from,
+        to: record.to,
+        at: record.at,
+        duration: record.duration,
+        receivedAt: record.receivedAt,
+        faceId: record.faceId ?? null,
+      });
+    },
+
+    async openSession({ start, participantId }) {
+      const id = randomUUID();
+      statements.insertSession.run({ id, participantId: participantId ?? null, start });
+      return toSession(statements.getSession.get(id));
+    },
+
+    async closeSession(id, end) {
+      statements.closeSession.run({ id, end });
+      const row = statements.getSession.get(id);
+      return row ? toSession(row) : null;
+    },
+
+    async closeOpenSessions(end) {
+      const lastFrame = db.prepare('SELECT MAX(received_at) AS last FROM emotions WHERE session_id = ?');
+      const closeAll = db.transaction(() =>
+        db.prepare('SELECT * FROM sessions WHERE end IS NULL').all().map(row => {
+          statements.closeSession.run({ id: row.id, end: end ?? lastFrame.get(row.id).last ?? row.start });
+          return toSession(statements.getSession.get(row.id));
+        })
+      );
+      return closeAll();
+    },
+
+    async getEmotions({ limit, offset = 0, ...filter } = {}) {
+      const { where, params } = buildFilter(filter);
+      const total = db.prepare(`SELECT COUNT(*) AS count FROM emotions ${where}`).get(params).count;
+      // Offset counts back from the newest record; results stay in chronological order
+      const rows = db.prepare(`
+        SELECT * FROM emotions ${where}
+        ORDER BY received_at DESC, id DESC
+        LIMIT @limit OFFSET @offset
+      `).all({ ...params, limit: limit ?? -1, offset });
+      return { emotions: rows.reverse().map(toEmotionRecord), total };
+    },
+
+    async getEmotionPage({ after, limit, ...filter }) {
+      const { where, params } = buildFilter(filter);
+      const afterCondition = after === undefined ? '' : `${where ? 'AND' : 'WHERE'} id > @after`;
+      // Fetch one extra row to know whether another page follows
+      const rows = db.prepare(`
+        SELECT * FROM emotions ${where} ${afterCondition}
+        ORDER BY id
+        LIMIT @limit
+      `).all({ ...params, ...(after !== undefined && { after }), limit: limit + 1 });
+      const page = rows.slice(0, limit).map(toEmotionRecord);
+      return {
+        emotions: page,
+        nextCursor: rows.length > limit ? page[page.length - 1].id : null,
+      };
+    },
+
+    async getTransitions(filter = {}) {
+      const { where, params } = buildFilter(filter);
+      return db.prepare(`SELECT * FROM transitions ${where} ORDER BY id`).all(params).map(toTransitionRecord);
+    },
+
+    async getSession(id) {
+      const row = statements.getSession.get(id);
+      return row ? toSession(row) : null;
+    },
+
+    async getSessions({ limit } = {}) {
+      const rows = db.prepare(`
+        SELECT * FROM sessions WHERE end IS NOT NULL
+        ORDER BY start DESC
+        LIMIT @limit
+      `).all({ limit: limit ?? -1 });
+      return rows.reverse().map(toSession);
+    },
+
+    async getEmotionDistribution(filter = {}) {
+      const { where, params } = buildFilter(filter);
+      const rows = db.prepare(`
+        SELECT emotion, COUNT(*) AS count FROM emotions ${where} GROUP BY emotion
+      `).all(params);
+      const distribution = emotionRecord();
+      for (const row of rows) {
+        if (row.emotion in distribution) distribution[row.emotion] = row.count;
+      }
+      return distribution;
+    },
+
+    async getAverageConfidence(filter = {}) {
+      const { where, params } = buildFilter(filter);
+      const row = db.prepare(`SELECT AVG(confidence) AS average FROM emotions ${where}`).get(params);
+      return row.average ?? 0;
+    },
+
+    async getSessionSummary() {
+      const row = db.prepare(`
+        SELECT COUNT(*) AS total, AVG(duration) AS averageDuration FROM sessions
+      `).get();
+      return {
+        totalSessions: row.total,
+        averageSessionDuration: row.averageDuration ?? 0,
+      };
+    },
+
+    async countEmotions(filter = {}) {
+      const { where, params } = buildFilter(filter);
+      return db.prepare(`SELECT COUNT(*) AS count FROM emotions ${where}`).get(params).count;
+    },
+
+    async countTransitions(filter = {}) {
+      const { where, params } = buildFilter(filter);
+      return db.prepare(`SELECT COUNT(*) AS count FROM transitions ${where}`).get(params).count;
+    },
+
+    async appendAlert(record) {
+      const { lastInsertRowid } = statements.insertAlert.run({
+        ruleId: record.ruleId,
+        ruleName: record.ruleName,
+        type: record.type,
+        sessionId: record.sessionId ?? null,
+        participantId: record.participantId ?? null,
+        roomId: record.roomId ?? null,
+        faceId: record.faceId ?? null,
+        emotion: record.emotion ?? null,
+        confidence: record.confidence ?? null,
+        startedAt: record.startedAt,
+        duration: record.duration,
+        receivedAt: record.receivedAt,
+      });
+      return toAlertRecord(statements.getAlert.get(lastInsertRowid));
+    },
+
+    async getAlerts({ limit, ...filter } = {}) {
+      const { where, params } = buildFilter(filter);
+      return db.prepare(`
+        SELECT * FROM alerts ${where}
+        ORDER BY id DESC
+        LIMIT @limit
+      `).all({ ...params, limit: limit ?? -1 }).map(toAlertRecord);
+    },
+
+    async getAlertRules() {
+      return db.prepare('SELECT * FROM alert_rules ORDER BY created_at, id').all().map(toAlertRule);
+    },
+
+    async createAlertRule(rule) {
+      const id = randomUUID();
+      statements.insertAlertRule.run({ ...toRuleParams(id, rule), createdAt: Date.now() });
+      return toAlertRule(statements.getAlertRule.get(id));
+    },
+
+    async updateAlertRule(id, rule) {
+      const { changes } = statements.updateAlertRule.run(toRuleParams(id, rule));
+      return changes > 0 ? toAlertRule(statements.getAlertRule.get(id)) : null;
+    },
+
+    async deleteAlertRule(id) {
+      return statements.deleteAlertRule.run(id).changes > 0;
+    },
+
+    async applyRetention() {
+      for (const table of ['emotions', 'transitions', 'alerts']) {
+        if (retention.maxAgeMs) {
+          db.prepare(`DELETE FROM ${table} WHERE received_at < ?`).run(Date.now() - retention.maxAgeMs);
+        }
+        if (retention.maxRecords) {
+          db.prepare(`
+            DELETE FROM ${table} WHERE id NOT IN (
+              SELECT id FROM ${table} ORDER BY received_at DESC, id DESC LIMIT ?
+            )
+          `).run(retention.maxRecords);
+        }
+      }
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+};
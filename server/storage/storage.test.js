@@ -0,0 +1,170 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { emotionRecord } from '../../shared/emotions.js';
+import { createMemoryStorage } from './memoryStorage.js';
+import { createSqliteStorage } from './sqliteStorage.js';
+
+const BACKENDS = {
+  memory: (retention) => createMemoryStorage({ retention }),
+  sqlite: (retention) => createSqliteStorage({ retention, sqlitePath: ':memory:' }),
+};
+
+const frame = (emotion, receivedAt, fields = {}) => ({
+  emotion,
+  confidence: 0.5,
+  timestamp: receivedAt,
+  receivedAt,
+  sessionId: 'session',
+  participantId: 'participant',
+  roomId: null,
+  ...fields,
+});
+
+// Every backend runs the same suite, so their answers cannot drift apart
+Object.entries(BACKENDS).forEach(([type, createBackend]) => {
+  describe(`${type} storage`, () => {
+    const withStorage = async (retention, test) => {
+      const storage = await createBackend(retention);
+      try {
+        await test(storage);
+      } finally {
+        await storage.close();
+      }
+    };
+
+    it('opens, closes and lists sessions', () => withStorage({}, async (storage) => {
+      const first = await storage.openSession({ start: 1000, participantId: 'participant' });
+      const second = await storage.openSession({ start: 2000, participantId: 'other' });
+      assert.deepEqual(first, { id: first.id, participantId: 'participant', start: 1000, end: null, duration: null });
+      assert.notEqual(first.id, second.id);
+
+      assert.deepEqual(await storage.getSessions(), []);
+      assert.deepEqual(await storage.closeSession(first.id, 4000), { ...first, end: 4000, duration: 3 });
+      assert.equal(await storage.closeSession('unknown', 4000), null);
+      assert.deepEqual((await storage.getSessions()).map(session => session.id), [first.id]);
+      assert.deepEqual(await storage.getSessionSummary(), { totalSessions: 2, averageSessionDuration: 3 });
+    }));
+
+    it('closes open sessions at their last frame, or their start without frames', () => withStorage({}, async (storage) => {
+      const withFrames = await storage.openSession({ start: 1000, participantId: 'participant' });
+      const empty = await storage.openSession({ start: 2000, participantId: 'other' });
+      await storage.appendEmotion(frame('happy', 1500, { sessionId: withFrames.id }));
+      await storage.appendEmotion(frame('sad', 2500, { sessionId: withFrames.id }));
+
+      const closed = await storage.closeOpenSessions();
+      assert.deepEqual(
+        closed.map(({ id, end, duration }) => ({ id, end, duration })).sort((a, b) => a.end - b.end),
+        [{ id: empty.id, end: 2000, duration: 0 }, { id: withFrames.id, end: 2500, duration: 1.5 }]
+      );
+      assert.deepEqual(await storage.closeOpenSessions(), []);
+    }));
+
+    it('stores frames with their optional fields and filters them', () => withStorage({}, async (storage) => {
+      await storage.appendEmotion(frame('happy', 1000, {
+        scores: { ...emotionRecord(), happy: 1 },
+        faceId: 2,
+        classifier: { id: 'landmarks', version: '1.0.0' },
+      }));
+      await storage.appendEmotion(frame('sad', 2000, { sessionId: 'other', roomId: 'lobby' }));
+      await storage.appendEmotion(frame('sad', 3000));
+
+      const { emotions, total } = await storage.getEmotions({ sessionId: 'session' });
+      assert.equal(total, 2);
+      assert.deepEqual(emotions[0], {
+        ...frame('happy', 1000, {
+          scores: { ...emotionRecord(), happy: 1 },
+          faceId: 2,
+          classifier: { id: 'landmarks', version: '1.0.0' },
+        }),
+        id: emotions[0].id,
+      });
+      assert.equal(await storage.countEmotions({ roomId: 'lobby' }), 1);
+      assert.equal(await storage.countEmotions({ from: 1500, to: 2500 }), 1);
+      assert.equal(await storage.countEmotions(), 3);
+      assert.equal(await storage.getAverageConfidence({ sessionId: 'missing' }), 0);
+    }));
+
+    it('offsets back from the newest frame and keeps the result in order', () => withStorage({}, async (storage) => {
+      for (let index = 0; index < 5; index += 1) {
+        await storage.appendEmotion(frame('neutral', index * 1000));
+      }
+      const { emotions, total } = await storage.getEmotions({ limit: 2, offset: 1 });
+      assert.equal(total, 5);
+      assert.deepEqual(emotions.map(record => record.receivedAt), [2000, 3000]);
+    }));
+
+    it('pages frames by cursor until the last page', () => withStorage({}, async (storage) => {
+      for (let index = 0; index < 5; index += 1) {
+        await storage.appendEmotion(frame('neutral', index * 1000));
+        await storage.appendEmotion(frame('happy', index * 1000, { sessionId: 'other' }));
+      }
+
+      const pages = [];
+      let after;
+      do {
+        const page = await storage.getEmotionPage({ sessionId: 'session', after, limit: 2 });
+        pages.push(page.emotions.map(record => record.receivedAt));
+        after = page.nextCursor ?? undefined;
+      } while (after !== undefined);
+
+      assert.deepEqual(pages, [[0, 1000], [2000, 3000], [4000]]);
+    }));
+
+    it('stores transitions and alerts', () => withStorage({}, async (storage) => {
+      const transition = { from: 'happy', to: 'sad', at: 2000, duration: 1000, receivedAt: 2000, sessionId: 'session', participantId: 'participant', roomId: null };
+      await storage.appendTransition(transition);
+      const [stored] = await storage.getTransitions({ sessionId: 'session' });
+      assert.deepEqual({ ...stored, id: undefined, faceId: undefined }, { ...transition, id: undefined, faceId: undefined });
+      assert.equal(await storage.countTransitions({ sessionId: 'other' }), 0);
+
+      const alert = { ruleId: 'rule', ruleName: 'Rule', type: 'no-face', sessionId: 'session', participantId: 'participant', roomId: null, startedAt: 1000, duration: 2000 };
+      const first = await storage.appendAlert({ ...alert, receivedAt: 3000 });
+      const second = await storage.appendAlert({ ...alert, receivedAt: 4000 });
+      assert.ok(second.id > first.id);
+      assert.deepEqual((await storage.getAlerts({ limit: 1 })).map(record => record.id), [second.id]);
+    }));
+
+    it('creates, updates and deletes alert rules', () => withStorage({}, async (storage) => {
+      const rule = { name: 'Upset', type: 'emotion', emotions: ['sad'], minConfidence: 0.5, duration: 5000, enabled: true };
+      const created = await storage.createAlertRule(rule);
+      assert.deepEqual(created, { ...rule, id: created.id, createdAt: created.createdAt });
+
+      const updated = await storage.updateAlertRule(created.id, { ...rule, enabled: false });
+      assert.deepEqual(updated, { ...created, enabled: false });
+      assert.equal(await storage.updateAlertRule('unknown', rule), null);
+
+      assert.equal(await storage.deleteAlertRule(created.id), true);
+      assert.equal(await storage.deleteAlertRule(created.id), false);
+      assert.deepEqual(await storage.getAlertRules(), []);
+    }));
+
+    it('keeps the newest records under the record limit', () => withStorage({ maxRecords: 3 }, async (storage) => {
+      const now = Date.now();
+      for (let index = 0; index < 5; index += 1) {
+        await storage.appendEmotion(frame(index < 2 ? 'happy' : 'sad', now + index));
+      }
+      await storage.applyRetention();
+
+      const { emotions } = await storage.getEmotions();
+      assert.deepEqual(emotions.map(record => record.receivedAt), [now + 2, now + 3, now + 4]);
+      // The distribution counts stored frames only, filtered or not
+      assert.deepEqual(await storage.getEmotionDistribution(), { ...emotionRecord(), sad: 3 });
+      assert.deepEqual(await storage.getEmotionDistribution({ sessionId: 'session' }), { ...emotionRecord(), sad: 3 });
+    }));
+
+    it('drops records older than the age limit and never alert rules', () => withStorage({ maxAgeMs: 60000 }, async (storage) => {
+      const now = Date.now();
+      await storage.appendEmotion(frame('happy', now - 120000));
+      await storage.appendEmotion(frame('sad', now));
+      await storage.appendTransition({ from: 'happy', to: 'sad', at: now - 120000, duration: 1000, receivedAt: now - 120000 });
+      await storage.appendAlert({ ruleId: 'rule', ruleName: 'Rule', type: 'no-face', startedAt: now - 180000, duration: 2000, receivedAt: now - 120000 });
+      await storage.createAlertRule({ name: 'Away', type: 'no-face', emotions: [], minConfidence: 0, duration: 2000, enabled: true });
+      await storage.applyRetention();
+
+      assert.deepEqual(await storage.getEmotionDistribution(), { ...emotionRecord(), sad: 1 });
+      assert.equal(await storage.countTransitions(), 0);
+      assert.deepEqual(await storage.getAlerts(), []);
+      assert.equal((await storage.getAlertRules()).length, 1);
+    }));
+  });
+});
@@ -0,0 +1,61 @@
+// Emotion registry shared by the browser client and the Node server. Every
+// label, display name, emoji and colour is derived from this list, and so is
+// the Emotion type, through the JSDoc below; adding an emotion (fear, disgust
+// and contempt complete the standard seven) means adding an entry here.
+// Each classifier lists the emotions it can score in its metadata; for that
+// classifier the other entries are label-only: they always score 0, can still
+// be captured and used in alert rules, and are marked in the distribution.
+
+export const EMOTION_DEFINITIONS = /** @type {const} */ ([
+  { id: 'happy', label: 'Happy', emoji: '😊', color: '#10B981' },
+  { id: 'sad', label: 'Sad', emoji: '😢', color: '#3B82F6' },
+  { id: 'angry', label: 'Angry', emoji: '😠', color: '#EF4444' },
+  { id: 'surprised', label: 'Surprised', emoji: '😲', color: '#F59E0B' },
+  { id: 'neutral', label: 'Neutral', emoji: '😐', color: '#6B7280' },
+]);
+
+/** @typedef {(typeof EMOTION_DEFINITIONS)[number]['id']} Emotion */
+
+/**
+ * @typedef {object} EmotionDefinition
+ * @property {Emotion} id
+ * @property {string} label Display name
+ * @property {string} emoji
+ * @property {string} color Hex colour used by charts, overlays and reports
+ */
+
+/**
+ * Emotion ids in display order
+ * @type {readonly Emotion[]}
+ */
+export const EMOTIONS = EMOTION_DEFINITIONS.map(definition => definition.id);
+
+/** @type {Map<unknown, EmotionDefinition>} */
+const byId = new Map(EMOTION_DEFINITIONS.map(definition => [definition.id, definition]));
+
+/**
+ * @param {unknown} value
+ * @returns {value is Emotion}
+ */
+export const isEmotion = (value) => byId.has(value);
+
+/**
+ * Definition of a registered emotion; unknown ids, such as labels stored
+ * before the taxonomy changed, get a neutral grey entry named after the id
+ * @param {Emotion} id
+ * @returns {EmotionDefinition}
+ */
+export const getEmotionDefinition = (id) =>
+  byId.get(id) ?? { id, label: String(id), emoji: '❔', color: '#9CA3AF' };
+
+/** @type {Readonly<Record<Emotion, string>>} */
+export const EMOTION_COLORS = Object.fromEntries(EMOTION_DEFINITIONS.map(({ id, color }) => [id, color]));
+
+/**
+ * An object with every emotion set to the same value, for counters and scores
+ * @param {number} [value]
+ * @returns {Record<Emotion, number>}
+ */
+export const emotionRecord = (value = 0) => /** @type {Record<Emotion, number>} */ (
+  Object.fromEntries(EMOTIONS.map(emotion => [emotion, value]))
+);
@@ -0,0 +1,323 @@
+// WebSocket protocol shared by the browser client and the Node server: the
+// message types, as JSDoc like the emotion registry's, and their runtime
+// validation.
+
+import { EMOTIONS } from './emotions.js';
+
+/** @typedef {import('./emotions.js').Emotion} Emotion */
+/** @typedef {import('../src/types/emotion').EmotionData} EmotionData */
+/** @typedef {import('../src/types/emotion').EmotionTransition} EmotionTransition */
+/** @typedef {import('../src/types/emotion').EmotionStats} EmotionStats */
+/** @typedef {import('../src/types/alerts').AlertEvent} AlertEvent */
+
+/** @type {number} */
+export const PROTOCOL_VERSION = 1;
+
+export const ERROR_CODES = /** @type {const} */ ({
+  INVALID_JSON: 'invalid-json',
+  INVALID_MESSAGE: 'invalid-message',
+  UNKNOWN_TYPE: 'unknown-type',
+  HANDSHAKE_REQUIRED: 'handshake-required',
+  UNSUPPORTED_VERSION: 'unsupported-version',
+  UNKNOWN_PEER: 'unknown-peer',
+  SESSION_ENDED: 'session-ended',
+});
+
+/** @typedef {(typeof ERROR_CODES)[keyof typeof ERROR_CODES]} ErrorCode */
+
+/**
+ * @typedef {{ type: 'offer' | 'answer', sdp: string } | { type: 'ice', candidate: RTCIceCandidateInit }} SignalPayload
+ */
+
+// Client to server
+
+/**
+ * Opens a session, or the next one after session-end
+ * @typedef {object} HelloMessage
+ * @property {'hello'} type
+ * @property {number} protocolVersion
+ * @property {string} [sessionId] Session to resume after a reconnect
+ * @property {string} [participantId] The participant the resumed session belonged to
+ * @property {boolean} [openSession] False to complete the handshake without opening a session; answered with welcome
+ */
+
+/**
+ * @typedef {object} ClientEmotionMessage
+ * @property {'emotion'} type
+ * @property {number} [seq] Sequence number echoed back in the server's ack
+ * @property {EmotionData} payload
+ */
+
+/**
+ * @typedef {object} ClientTransitionMessage
+ * @property {'transition'} type
+ * @property {number} [seq]
+ * @property {EmotionTransition} payload
+ */
+
+/**
+ * `faces` reports the faces in view at a detection timestamp, about once a
+ * second while detecting; `session-end` closes the session and leaves the
+ * connection open for the next hello; `stats-subscribe` asks for stats pushes
+ * on this connection.
+ * @typedef {HelloMessage
+ *   | ClientEmotionMessage
+ *   | ClientTransitionMessage
+ *   | { type: 'faces', count: number, timestamp: number }
+ *   | { type: 'session-end' }
+ *   | { type: 'join', roomId: string }
+ *   | { type: 'leave' }
+ *   | { type: 'stats-subscribe' }
+ *   | { type: 'stats-unsubscribe' }
+ *   | { type: 'signal', to: string, signal: SignalPayload }} ClientMessage
+ */
+
+// Server to client
+
+/**
+ * @typedef {object} SessionStartMessage
+ * @property {'session-start'} type
+ * @property {number} protocolVersion
+ * @property {string} sessionId
+ * @property {string} participantId
+ * @property {boolean} resumed True when the server resumed the session requested in hello
+ */
+
+/**
+ * Handshake completed without a session, in answer to hello with openSession false
+ * @typedef {object} WelcomeMessage
+ * @property {'welcome'} type
+ * @property {number} protocolVersion
+ * @property {string} participantId
+ */
+
+/**
+ * Emotion frame relayed from another participant in the room
+ * @typedef {object} ServerEmotionMessage
+ * @property {'emotion'} type
+ * @property {string} participantId
+ * @property {string} roomId
+ * @property {EmotionData} payload
+ */
+
+/**
+ * Changes since the previous push; counts are added, everything else replaced
+ * @typedef {object} StatsDelta
+ * @property {Record<Emotion, number>} distribution Frames per emotion stored since the previous push
+ * @property {number} transitions Transitions stored since the previous push
+ * @property {number} confidenceAverage Over the frames received in the last five minutes
+ * @property {number} recentEmotionsCount
+ * @property {number} totalSessions
+ * @property {number} averageSessionDuration
+ * @property {number} activeConnections
+ */
+
+/**
+ * @typedef {object} ErrorMessage
+ * @property {'error'} type
+ * @property {ErrorCode} code
+ * @property {string} message
+ * @property {number} [seq]
+ */
+
+/**
+ * `stats-snapshot` goes to a new stats subscriber, and again whenever deltas
+ * cannot describe a change; `alert` reports a rule that fired for this session
+ * or one in the same room.
+ * @typedef {SessionStartMessage
+ *   | WelcomeMessage
+ *   | ServerEmotionMessage
+ *   | { type: 'ack', seq: number }
+ *   | ErrorMessage
+ *   | { type: 'stats-snapshot', stats: EmotionStats }
+ *   | { type: 'stats-push', delta: StatsDelta }
+ *   | { type: 'session-end', sessionId: string, duration: number }
+ *   | { type: 'alert', alert: AlertEvent }
+ *   | { type: 'joined', roomId: string, participantId: string, peers: string[] }
+ *   | { type: 'peer-joined', participantId: string }
+ *   | { type: 'peer-left', participantId: string }
+ *   | { type: 'signal', from: string, signal: SignalPayload }} ServerMessage
+ */
+
+/**
+ * @template T
+ * @typedef {{ ok: true, message: T }
+ *   | { ok: false, error: { code: ErrorCode, message: string, seq?: number } }} ParseResult
+ */
+
+/**
+ * Why a hello's protocol version cannot be served, or null when it matches
+ * @param {number} version
+ * @returns {string | null}
+ */
+export const checkProtocolVersion = (version) =>
+  version === PROTOCOL_VERSION
+    ? null
+    : `Protocol version ${version} is not supported (server speaks ${PROTOCOL_VERSION})`;
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim() !== '';
+const isFaceId = (value) => Number.isInteger(value) && value > 0;
+const isOptional = (value, check) => value === undefined || value === null || check(value);
+const isClassifierInfo = (value) =>
+  isObject(value) && isNonEmptyString(value.id) && isNonEmptyString(value.version);
+
+const fail = (code, message, seq) => ({
+  ok: false,
+  error: isFiniteNumber(seq) ? { code, message, seq } : { code, message },
+});
+const ok = (message) => ({ ok: true, message });
+
+/**
+ * @param {unknown} value
+ * @returns {string | null}
+ */
+export const validateEmotionData = (value) => {
+  if (!isObject(value)) return 'payload must be an object';
+  if (!EMOTIONS.includes(value.emotion)) return `emotion must be one of ${EMOTIONS.join(', ')}`;
+  if (!isFiniteNumber(value.confidence) || value.confidence < 0 || value.confidence > 1) {
+    return 'confidence must be a number between 0 and 1';
+  }
+  if (!isFiniteNumber(value.timestamp)) return 'timestamp must be a number';
+  if (value.scores !== undefined) {
+    if (!isObject(value.scores)) return 'scores must be an object';
+    for (const emotion of EMOTIONS) {
+      if (!isFiniteNumber(value.scores[emotion])) return `scores.${emotion} must be a number`;
+    }
+  }
+  if (!isOptional(value.faceId, isFaceId)) return 'faceId must be a positive integer';
+  if (!isOptional(value.classifier, isClassifierInfo)) return 'classifier must have an id and a version';
+  return null;
+};
+
+/**
+ * @param {unknown} value
+ * @returns {string | null}
+ */
+export const validateTransition = (value) => {
+  if (!isObject(value)) return 'payload must be an object';
+  if (!EMOTIONS.includes(value.from)) return `from must be one of ${EMOTIONS.join(', ')}`;
+  if (!EMOTIONS.includes(value.to)) return `to must be one of ${EMOTIONS.join(', ')}`;
+  if (value.from === value.to) return 'from and to must differ';
+  if (!isFiniteNumber(value.at)) return 'at must be a number';
+  if (!isFiniteNumber(value.duration) || value.duration < 0) return 'duration must be a non-negative number';
+  if (!isOptional(value.faceId, isFaceId)) return 'faceId must be a positive integer';
+  return null;
+};
+
+const validateSignal = (signal) => {
+  if (!isObject(signal)) return 'signal must be an object';
+  if (signal.type === 'offer' || signal.type === 'answer') {
+    return typeof signal.sdp === 'string' ? null : 'signal.sdp must be a string';
+  }
+  if (signal.type === 'ice') {
+    return isObject(signal.candidate) ? null : 'signal.candidate must be an object';
+  }
+  return 'signal.type must be offer, answer or ice';
+};
+
+// Validators per message type, returning an error description or null
+const clientValidators = {
+  hello: (message) => {
+    if (!isFiniteNumber(message.protocolVersion)) return 'protocolVersion must be a number';
+    if (!isOptional(message.openSession, (value) => typeof value === 'boolean')) return 'openSession must be a boolean';
+    if (!isOptional(message.participantId, isNonEmptyString)) return 'participantId must be a string';
+    return isOptional(message.sessionId, isNonEmptyString) ? null : 'sessionId must be a string';
+  },
+  emotion: (message) => {
+    if (!isOptional(message.seq, isFiniteNumber)) return 'seq must be a number';
+    return validateEmotionData(message.payload);
+  },
+  transition: (message) => {
+    if (!isOptional(message.seq, isFiniteNumber)) return 'seq must be a number';
+    return validateTransition(message.payload);
+  },
+  faces: (message) => {
+    if (!Number.isInteger(message.count) || message.count < 0) return 'count must be a non-negative integer';
+    return isFiniteNumber(message.timestamp) ? null : 'timestamp must be a number';
+  },
+  'session-end': () => null,
+  join: (message) => (isNonEmptyString(message.roomId) ? null : 'roomId is required'),
+  leave: () => null,
+  'stats-subscribe': () => null,
+  'stats-unsubscribe': () => null,
+  signal: (message) =>
+    isNonEmptyString(message.to) ? validateSignal(message.signal) : 'to is required',
+};
+
+const serverValidators = {
+  'session-start': (message) => {
+    if (!isFiniteNumber(message.protocolVersion)) return 'protocolVersion must be a number';
+    if (!isNonEmptyString(message.sessionId)) return 'sessionId is required';
+    if (typeof message.resumed !== 'boolean') return 'resumed must be a boolean';
+    return isNonEmptyString(message.participantId) ? null : 'participantId is required';
+  },
+  welcome: (message) => {
+    if (!isFiniteNumber(message.protocolVersion)) return 'protocolVersion must be a number';
+    return isNonEmptyString(message.participantId) ? null : 'participantId is required';
+  },
+  emotion: (message) => {
+    if (!isNonEmptyString(message.participantId)) return 'participantId is required';
+    return validateEmotionData(message.payload);
+  },
+  ack: (message) => (isFiniteNumber(message.seq) ? null : 'seq must be a number'),
+  error: (message) =>
+    isNonEmptyString(message.code) && typeof message.message === 'string'
+      ? null
+      : 'code and message are required',
+  'stats-snapshot': (message) => (isObject(message.stats) ? null : 'stats must be an object'),
+  'stats-push': (message) =>
+    isObject(message.delta) && isObject(message.delta.distribution)
+      ? null
+      : 'delta with a distribution is required',
+  'session-end': (message) =>
+    isNonEmptyString(message.sessionId) && isFiniteNumber(message.duration)
+      ? null
+      : 'sessionId and duration are required',
+  alert: (message) =>
+    isObject(message.alert) && isNonEmptyString(message.alert.ruleName) && isNonEmptyString(message.alert.sessionId)
+      ? null
+      : 'alert with a ruleName and sessionId is required',
+  joined: (message) =>
+    isNonEmptyString(message.roomId) && Array.isArray(message.peers)
+      ? null
+      : 'roomId and peers are required',
+  'peer-joined': (message) =>
+    isNonEmptyString(message.participantId) ? null : 'participantId is required',
+  'peer-left': (message) =>
+    isNonEmptyString(message.participantId) ? null : 'participantId is required',
+  signal: (message) =>
+    isNonEmptyString(message.from) ? validateSignal(message.signal) : 'from is required',
+};
+
+const parseWith = (validators) => (raw) => {
+  let message;
+  try {
+    message = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  } catch {
+    return fail(ERROR_CODES.INVALID_JSON, 'Message is not valid JSON');
+  }
+
+  if (!isObject(message) || typeof message.type !== 'string') {
+    return fail(ERROR_CODES.INVALID_MESSAGE, 'Message must be an object with a type');
+  }
+
+  const validate = validators[message.type];
+  if (!validate) {
+    return fail(ERROR_CODES.UNKNOWN_TYPE, `Unknown message type: ${message.type}`);
+  }
+
+  const error = validate(message);
+  if (error) {
+    // Echo the sequence number so the sender can match the error to the frame
+    return fail(ERROR_CODES.INVALID_MESSAGE, `Invalid ${message.type} message: ${error}`, message.seq);
+  }
+  return ok(message);
+};
+
+/** @type {(raw: unknown) => ParseResult<ClientMessage>} */
+export const parseClientMessage = parseWith(clientValidators);
+
+/** @type {(raw: unknown) => ParseResult<ServerMessage>} */
+export const parseServerMessage = parseWith(serverValidators);
@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  ERROR_CODES,
+  PROTOCOL_VERSION,
+  checkProtocolVersion,
+  parseClientMessage,
+  parseServerMessage,
+} from './protocol.js';
+
+const FRAME = {
+  emotion: 'happy',
+  confidence: 0.8,
+  timestamp: 1000,
+  scores: { happy: 0.8, sad: 0.05, angry: 0.05, surprised: 0.05, neutral: 0.05 },
+  faceId: 1,
+  classifier: { id: 'landmarks', version: '1.0.0' },
+};
+
+const TRANSITION = { from: 'happy', to: 'sad', at: 2000, duration: 1000, faceId: 1 };
+
+const SIGNAL = { type: 'offer', sdp: 'v=0' };
+
+const CLIENT_MESSAGES = [
+  { type: 'hello', protocolVersion: PROTOCOL_VERSION },
+  { type: 'hello', protocolVersion: PROTOCOL_VERSION, sessionId: 'session', participantId: 'participant' },
+  { type: 'hello', protocolVersion: PROTOCOL_VERSION, openSession: false },
+  { type: 'emotion', seq: 1, payload: FRAME },
+  { type: 'emotion', payload: { emotion: 'neutral', confidence: 0.5, timestamp: 0 } },
+  { type: 'transition', seq: 2, payload: TRANSITION },
+  { type: 'faces', count: 0, timestamp: 1000 },
+  { type: 'session-end' },
+  { type: 'join', roomId: 'lobby' },
+  { type: 'leave' },
+  { type: 'stats-subscribe' },
+  { type: 'stats-unsubscribe' },
+  { type: 'signal', to: 'peer', signal: SIGNAL },
+  { type: 'signal', to: 'peer', signal: { type: 'ice', candidate: { candidate: 'candidate:1' } } },
+];
+
+const SERVER_MESSAGES = [
+  { type: 'session-start', protocolVersion: PROTOCOL_VERSION, sessionId: 'session', participantId: 'participant', resumed: false },
+  { type: 'welcome', protocolVersion: PROTOCOL_VERSION, participantId: 'participant' },
+  { type: 'emotion', participantId: 'peer', roomId: 'lobby', payload: FRAME },
+  { type: 'ack', seq: 1 },
+  { type: 'error', code: ERROR_CODES.INVALID_MESSAGE, message: 'Invalid' },
+  { type: 'stats-snapshot', stats: {} },
+  { type: 'stats-push', delta: { distribution: {} } },
+  { type: 'session-end', sessionId: 'session', duration: 12.5 },
+  { type: 'alert', alert: { ruleName: 'Negative', sessionId: 'session' } },
+  { type: 'joined', roomId: 'lobby', participantId: 'participant', peers: [] },
+  { type: 'peer-joined', participantId: 'peer' },
+  { type: 'peer-left', participantId: 'peer' },
+  { type: 'signal', from: 'peer', signal: SIGNAL },
+];
+
+const assertRejected = (result, code = ERROR_CODES.INVALID_MESSAGE) => {
+  assert.equal(result.ok, false);
+  assert.equal(result.error.code, code);
+};
+
+describe('parseClientMessage', () => {
+  it('accepts a valid message of each type, as JSON or as an object', () => {
+    CLIENT_MESSAGES.forEach(message => {
+      assert.deepEqual(parseClientMessage(JSON.stringify(message)), { ok: true, message });
+      assert.equal(parseClientMessage(message).ok, true, message.type);
+    });
+  });
+
+  it('rejects text that is not JSON or not a typed object', () => {
+    assertRejected(parseClientMessage('{'), ERROR_CODES.INVALID_JSON);
+    assertRejected(parseClientMessage('[]'));
+    assertRejected(parseClientMessage('{"seq":1}'));
+    assertRejected(parseClientMessage({ type: 'shout' }), ERROR_CODES.UNKNOWN_TYPE);
+  });
+
+  it('accepts a confidence of 0 and 1', () => {
+    [0, 1].forEach(confidence => {
+      assert.equal(parseClientMessage({ type: 'emotion', payload: { ...FRAME, confidence } }).ok, true);
+    });
+  });
+
+  it('rejects bad emotion frames and echoes their seq', () => {
+    [
+      { ...FRAME, emotion: 'bored' },
+      { ...FRAME, emotion: 'toString' },
+      { ...FRAME, confidence: 1.2 },
+      { ...FRAME, confidence: -0.1 },
+      { ...FRAME, confidence: '0.8' },
+      { ...FRAME, timestamp: '1000' },
+      { ...FRAME, timestamp: Infinity },
+      { ...FRAME, scores: { ...FRAME.scores, sad: undefined } },
+      { ...FRAME, scores: [] },
+      { ...FRAME, faceId: 0 },
+      { ...FRAME, faceId: 1.5 },
+      { ...FRAME, classifier: { id: 'landmarks' } },
+      'happy',
+    ].forEach(payload => {
+      const result = parseClientMessage({ type: 'emotion', seq: 7, payload });
+      assertRejected(result);
+      assert.equal(result.error.seq, 7);
+    });
+  });
+
+  it('rejects bad transitions', () => {
+    [
+      { ...TRANSITION, to: 'bored' },
+      { ...TRANSITION, to: 'happy' },
+      { ...TRANSITION, at: null },
+      { ...TRANSITION, duration: -1 },
+    ].forEach(payload => assertRejected(parseClientMessage({ type: 'transition', payload })));
+  });
+
+  it('rejects other messages with missing or mistyped fields', () => {
+    [
+      { type: 'hello' },
+      { type: 'hello', protocolVersion: '1' },
+      { type: 'hello', protocolVersion: PROTOCOL_VERSION, sessionId: 7 },
+      { type: 'hello', protocolVersion: PROTOCOL_VERSION, openSession: 'no' },
+      { type: 'faces', count: -1, timestamp: 0 },
+      { type: 'faces', count: 1.5, timestamp: 0 },
+      { type: 'join', roomId: '  ' },
+      { type: 'signal', to: 'peer', signal: { type: 'offer' } },
+      { type: 'signal', to: 'peer', signal: { type: 'bye' } },
+      { type: 'signal', signal: SIGNAL },
+    ].forEach(message => assertRejected(parseClientMessage(message)));
+  });
+});
+
+describe('parseServerMessage', () => {
+  it('accepts a valid message of each type', () => {
+    SERVER_MESSAGES.forEach(message => {
+      assert.deepEqual(parseServerMessage(JSON.stringify(message)), { ok: true, message });
+    });
+  });
+
+  it('rejects messages with missing or mistyped fields', () => {
+    [
+      { type: 'session-start', protocolVersion: PROTOCOL_VERSION, sessionId: 'session', participantId: 'participant' },
+      { type: 'welcome', protocolVersion: PROTOCOL_VERSION },
+      { type: 'emotion', participantId: 'peer', payload: { ...FRAME, emotion: 'bored' } },
+      { type: 'ack' },
+      { type: 'stats-push', delta: {} },
+      { type: 'joined', roomId: 'lobby', peers: 'none' },
+    ].forEach(message => assertRejected(parseServerMessage(message)));
+  });
+
+  it('does not accept client-only types', () => {
+    assertRejected(parseServerMessage({ type: 'hello', protocolVersion: PROTOCOL_VERSION }), ERROR_CODES.UNKNOWN_TYPE);
+  });
+});
+
+describe('checkProtocolVersion', () => {
+  it('accepts the current version only', () => {
+    assert.equal(checkProtocolVersion(PROTOCOL_VERSION), null);
+    [PROTOCOL_VERSION - 1, PROTOCOL_VERSION + 1].forEach(version => {
+      assert.match(checkProtocolVersion(version), new RegExp(`Protocol version ${version} is not supported`));
+    });
+  });
+});
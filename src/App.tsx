@@ -1,82 +1,206 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Camera, Play, Square, BarChart3, Activity, Users } from 'lucide-react';
+import { useState, useRef } from 'react';
+import {
+  Camera,
+  Play,
+  Square,
+  BarChart3,
+  Activity,
+  Users,
+  PhoneCall,
+  PhoneOff,
+  History,
+  Tag,
+  Gauge,
+} from 'lucide-react';
 import VideoStream from './components/VideoStream';
+import RemoteVideo from './components/RemoteVideo';
+import SessionHistory from './components/SessionHistory';
+import SourcePicker from './components/SourcePicker';
+import CalibrationPanel from './components/CalibrationPanel';
+import CaptureReview from './components/CaptureReview';
+import OverlaySettingsPanel from './components/OverlaySettingsPanel';
 import EmotionChart from './components/EmotionChart';
-import StatsPanel from './components/StatsPanel';
-import { EmotionData, EmotionStats } from './types/emotion';
+import ExportMenu from './components/ExportMenu';
+import StatsPanel, { StatsWindow } from './components/StatsPanel';
+import AlertsPanel from './components/AlertsPanel';
+import AlertToasts from './components/AlertToasts';
+import { useAlertRules } from './hooks/useAlertRules';
+import { useAlerts } from './hooks/useAlerts';
+import { useAnalytics } from './hooks/useAnalytics';
+import { useCalibration } from './hooks/useCalibration';
+import { useEmotionSocket } from './hooks/useEmotionSocket';
+import { useLiveStats } from './hooks/useLiveStats';
+import { useVideoCall } from './hooks/useVideoCall';
+import { LabeledSample } from './types/dataset';
+import { Emotion, EmotionData, EmotionTransition } from './types/emotion';
+import { DEFAULT_CLASSIFIER_ID, listClassifiers } from './utils/classifierRegistry';
+import { DEFAULT_SMOOTHING, SmoothingConfig, SmoothingMethod } from './utils/emotionSmoothing';
+import { DEFAULT_TARGET_FPS } from './utils/frameScheduler';
+import { InputSource, WEBCAM_SOURCE, isFileSource } from './utils/inputSource';
+import { OverlaySettings, loadOverlaySettings, saveOverlaySettings } from './utils/overlayRenderer';
+import { getEmotionDefinition } from '../shared/emotions';
+
+type View = 'live' | 'history';
+
+// Frames per face shown in the live chart; file analysis keeps the whole timeline
+const CHART_WINDOW = 50;
+const CURRENT_FACE_TIMEOUT_MS = 1000;
+// How often the number of faces in view is reported, so the server can tell no face from no detection
+const FACE_COUNT_INTERVAL_MS = 1000;
+
+const CLASSIFIERS = listClassifiers();
+
+const TARGET_FPS_OPTIONS = [5, 10, 15, 30];
+
+const SMOOTHING_LABELS: Record<SmoothingMethod, string> = {
+  none: 'No smoothing',
+  ema: 'Moving average',
+  hysteresis: 'Hysteresis',
+  majority: 'Majority vote',
+};
 
 function App() {
+  const [view, setView] = useState<View>('live');
   const [isDetecting, setIsDetecting] = useState(false);
   const [emotions, setEmotions] = useState<EmotionData[]>([]);
   const [currentEmotion, setCurrentEmotion] = useState<EmotionData | null>(null);
-  const [stats, setStats] = useState<EmotionStats | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const wsRef = useRef<WebSocket | null>(null);
-
-  // WebSocket connection
-  useEffect(() => {
-    const wsUrl = import.meta.env.VITE_WS_URL || 'ws://localhost:8080';
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
-
-    ws.onopen = () => {
-      setIsConnected(true);
-      console.log('Connected to emotion server');
-    };
-
-    ws.onclose = () => {
-      setIsConnected(false);
-      console.log('Disconnected from emotion server');
-    };
-
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      setIsConnected(false);
-    };
-
-    return () => {
-      ws.close();
-    };
-  }, []);
-
-  // Fetch stats periodically
-  useEffect(() => {
-    const fetchStats = async () => {
-      try {
-        const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:8080';
-        const response = await fetch(`${apiUrl}/api/stats`);
-        const data = await response.json();
-        setStats(data);
-      } catch (error) {
-        console.error('Failed to fetch stats:', error);
-      }
-    };
-
-    if (isConnected) {
-      fetchStats();
-      const interval = setInterval(fetchStats, 5000);
-      return () => clearInterval(interval);
-    }
-  }, [isConnected]);
+  const [transitions, setTransitions] = useState<EmotionTransition[]>([]);
+  const [smoothing, setSmoothing] = useState<SmoothingConfig>(DEFAULT_SMOOTHING.ema);
+  const [classifierId, setClassifierId] = useState(DEFAULT_CLASSIFIER_ID);
+  const classifier = CLASSIFIERS.find(({ id }) => id === classifierId);
+  const [targetFps, setTargetFps] = useState(DEFAULT_TARGET_FPS);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [overlay, setOverlay] = useState<OverlaySettings>(loadOverlaySettings);
+  const [source, setSource] = useState<InputSource>(WEBCAM_SOURCE);
+  const chartWindow = isFileSource(source) ? Infinity : CHART_WINDOW;
+  const [captureMode, setCaptureMode] = useState(false);
+  const [samples, setSamples] = useState<LabeledSample[]>([]);
+  const calibration = useCalibration();
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [roomInput, setRoomInput] = useState(
+    () => new URLSearchParams(window.location.search).get('room') || 'lobby'
+  );
+  const seqRef = useRef(0);
+  const lastFaceCountRef = useRef<number | null>(null);
+  const {
+    status: connectionStatus,
+    attempt: reconnectAttempt,
+    isConnected,
+    socket,
+    sessionId,
+    send,
+    startSession,
+    endSession,
+  } = useEmotionSocket(import.meta.env.VITE_WS_URL || 'ws://localhost:8080');
+  const {
+    roomId,
+    remoteStreams,
+    peerEmotions,
+    joinRoom,
+    leaveRoom,
+  } = useVideoCall(socket, localStream);
+  const remoteEntries = Object.entries(remoteStreams);
+
+  // Server-wide stats, pushed over the socket or polled
+  const { stats, source: statsSource } = useLiveStats(socket, isConnected);
+  const [statsWindow, setStatsWindow] = useState<StatsWindow>('all');
+  const { analytics } = useAnalytics(statsWindow === 'all' ? null : { scope: 'global', window: statsWindow });
+
+  // Alert rules are evaluated by the server, which pushes the alerts they raise
+  const { alerts, toasts, dismissToast, clearAlerts } = useAlerts(socket, sessionId);
+  const alertRules = useAlertRules();
 
   const handleEmotionDetected = (emotion: EmotionData) => {
-    setCurrentEmotion(emotion);
-    setEmotions(prev => [...prev.slice(-49), emotion]);
+    // Follow one face in the sidebar until it has been out of view for a moment
+    setCurrentEmotion(prev =>
+      !prev || prev.faceId === emotion.faceId || emotion.timestamp - prev.timestamp > CURRENT_FACE_TIMEOUT_MS
+        ? emotion
+        : prev
+    );
+    // Keep the last chartWindow frames of each face
+    setEmotions(prev => {
+      const sameFace = prev.filter(frame => frame.faceId === emotion.faceId);
+      const dropped = sameFace.length >= chartWindow ? sameFace[0] : null;
+      return [...prev.filter(frame => frame !== dropped), emotion];
+    });
 
-    // Send to backend via WebSocket
-    if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(emotion));
+    // Send to backend via WebSocket, queued while reconnecting
+    seqRef.current += 1;
+    send({ type: 'emotion', seq: seqRef.current, payload: emotion });
+  };
+
+  // At most one report per interval; a file analysis runs ahead of the clock, so
+  // the next run's timestamps can be earlier and start reporting afresh
+  const handleFacesCounted = (count: number, timestamp: number) => {
+    const last = lastFaceCountRef.current;
+    if (last !== null && timestamp >= last && timestamp - last < FACE_COUNT_INTERVAL_MS) return;
+    lastFaceCountRef.current = timestamp;
+    send({ type: 'faces', count, timestamp });
+  };
+
+  const handleEmotionTransition = (transition: EmotionTransition) => {
+    setTransitions(prev => [...prev.slice(-(chartWindow - 1)), transition]);
+
+    seqRef.current += 1;
+    send({ type: 'transition', seq: seqRef.current, payload: transition });
+  };
+
+  // Newest first; pressing another key on the same frame relabels it instead
+  const handleSampleCaptured = (sample: LabeledSample) => {
+    setSamples(prev => [sample, ...prev.filter(existing => existing.id !== sample.id)]);
+  };
+
+  const relabelSample = (id: string, emotion: Emotion) => {
+    setSamples(prev => prev.map(sample => (sample.id === id ? { ...sample, emotion } : sample)));
+  };
+
+  const clearSamples = () => {
+    if (window.confirm(`Discard all ${samples.length} captured samples?`)) {
+      setSamples([]);
+    }
+  };
+
+  const toggleCall = () => {
+    if (roomId) {
+      leaveRoom();
+    } else if (roomInput.trim()) {
+      joinRoom(roomInput.trim());
     }
   };
 
+  const clearTimeline = () => {
+    setEmotions([]);
+    setTransitions([]);
+    setCurrentEmotion(null);
+  };
+
+  // Each detection run, or analysis of a file, is a session of its own
+  const stopDetection = () => {
+    if (isDetecting) endSession();
+    setIsDetecting(false);
+  };
+
   const toggleDetection = () => {
-    setIsDetecting(!isDetecting);
-    if (!isDetecting) {
-      setEmotions([]);
-      setCurrentEmotion(null);
+    if (isDetecting) {
+      stopDetection();
+    } else {
+      startSession();
+      clearTimeline();
+      setIsDetecting(true);
     }
   };
 
+  const changeSource = (next: InputSource) => {
+    stopDetection();
+    clearTimeline();
+    setSource(next);
+  };
+
+  const changeOverlay = (next: OverlaySettings) => {
+    setOverlay(next);
+    saveOverlaySettings(next);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       <div className="container mx-auto px-4 py-8">
@@ -98,106 +222,324 @@ function App() {
         {/* Connection Status */}
         <div className="flex justify-center mb-6">
           <div className={`px-4 py-2 rounded-full flex items-center gap-2 ${
-            isConnected 
+            connectionStatus === 'connected'
               ? 'bg-green-500/20 text-green-400 border border-green-500/30' 
-              : 'bg-red-500/20 text-red-400 border border-red-500/30'
+              : connectionStatus === 'reconnecting'
+                ? 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
+                : 'bg-red-500/20 text-red-400 border border-red-500/30'
           }`}>
-            <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-400' : 'bg-red-400'} animate-pulse`} />
-            {isConnected ? 'Connected to Server' : 'Connecting to Server...'}
+            <div className={`w-2 h-2 rounded-full ${
+              connectionStatus === 'connected'
+                ? 'bg-green-400'
+                : connectionStatus === 'reconnecting' ? 'bg-yellow-400' : 'bg-red-400'
+            } animate-pulse`} />
+            {connectionStatus === 'connected' && 'Connected to Server'}
+            {connectionStatus === 'connecting' && 'Connecting to Server...'}
+            {connectionStatus === 'reconnecting' && `Reconnecting (attempt ${reconnectAttempt})...`}
           </div>
         </div>
 
-        {/* Main Content */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* Video Stream */}
-          <div className="lg:col-span-2">
-            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-              <div className="flex items-center justify-between mb-6">
-                <div className="flex items-center gap-3">
-                  <Camera className="w-6 h-6 text-white" />
-                  <h2 className="text-xl font-semibold text-white">Live Video Stream</h2>
-                </div>
-                <button
-                  onClick={toggleDetection}
-                  className={`px-6 py-3 rounded-xl font-medium flex items-center gap-2 transition-all duration-200 ${
-                    isDetecting
-                      ? 'bg-red-500 hover:bg-red-600 text-white'
-                      : 'bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white'
-                  }`}
-                >
-                  {isDetecting ? (
-                    <>
-                      <Square className="w-4 h-4" />
-                      Stop Detection
-                    </>
-                  ) : (
-                    <>
-                      <Play className="w-4 h-4" />
-                      Start Detection
-                    </>
-                  )}
-                </button>
-              </div>
+        {/* View Switcher */}
+        <div className="flex justify-center gap-2 mb-8">
+          {([
+            { id: 'live', label: 'Live', icon: Camera },
+            { id: 'history', label: 'History', icon: History },
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`px-4 py-2 rounded-xl font-medium flex items-center gap-2 transition-all duration-200 ${
+                view === id
+                  ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white'
+                  : 'bg-white/10 hover:bg-white/20 text-slate-300'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
 
-              <VideoStream
-                isDetecting={isDetecting}
-                onEmotionDetected={handleEmotionDetected}
-                currentEmotion={currentEmotion}
-              />
-            </div>
-          </div>
+        {view === 'history' && <SessionHistory />}
 
-          {/* Sidebar */}
-          <div className="space-y-6">
-            {/* Current Emotion */}
-            {currentEmotion && (
+        {/* Live view stays mounted so the camera and call keep running while browsing history */}
+        <div className={view === 'live' ? '' : 'hidden'}>
+          {/* Main Content */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Video Stream */}
+            <div className="lg:col-span-2">
               <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-                <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-                  <Activity className="w-5 h-5" />
-                  Current Emotion
-                </h3>
-                <div className="text-center">
-                  <div className="text-3xl mb-2">
-                    {currentEmotion.emotion === 'happy' && '😊'}
-                    {currentEmotion.emotion === 'sad' && '😢'}
-                    {currentEmotion.emotion === 'angry' && '😠'}
-                    {currentEmotion.emotion === 'surprised' && '😲'}
-                    {currentEmotion.emotion === 'neutral' && '😐'}
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                  <div className="flex items-center gap-3">
+                    <Camera className="w-6 h-6 text-white" />
+                    <h2 className="text-xl font-semibold text-white">Live Video Stream</h2>
                   </div>
-                  <div className="text-xl font-bold text-white capitalize mb-2">
-                    {currentEmotion.emotion}
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      onClick={() => setShowDiagnostics(!showDiagnostics)}
+                      className={`px-3 py-3 rounded-xl text-sm font-medium flex items-center gap-2 transition-all duration-200 ${
+                        showDiagnostics
+                          ? 'bg-white/20 text-white'
+                          : 'bg-white/10 hover:bg-white/20 text-slate-300'
+                      }`}
+                      aria-label="Diagnostics"
+                      aria-pressed={showDiagnostics}
+                      title="Show inference timing and memory use"
+                    >
+                      <Gauge className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setCaptureMode(!captureMode)}
+                      className={`px-3 py-3 rounded-xl text-sm font-medium flex items-center gap-2 transition-all duration-200 ${
+                        captureMode
+                          ? 'bg-white/20 text-white'
+                          : 'bg-white/10 hover:bg-white/20 text-slate-300'
+                      }`}
+                      aria-pressed={captureMode}
+                      title="Label frames with keys 1-5 to build a dataset"
+                    >
+                      <Tag className="w-4 h-4" />
+                      Capture
+                    </button>
+                    <select
+                      value={classifierId}
+                      onChange={(e) => setClassifierId(e.target.value)}
+                      className="px-3 py-3 rounded-xl bg-white/10 border border-white/20 text-white text-sm"
+                      aria-label="Emotion classifier"
+                      title={classifier?.description}
+                    >
+                      {CLASSIFIERS.map(({ id, name }) => (
+                        <option key={id} value={id} className="text-black">
+                          {name}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={smoothing.method}
+                      onChange={(e) => setSmoothing(DEFAULT_SMOOTHING[e.target.value as SmoothingMethod])}
+                      className="px-3 py-3 rounded-xl bg-white/10 border border-white/20 text-white text-sm"
+                      aria-label="Emotion smoothing"
+                    >
+                      {(Object.keys(SMOOTHING_LABELS) as SmoothingMethod[]).map(method => (
+                        <option key={method} value={method} className="text-black">
+                          {SMOOTHING_LABELS[method]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={targetFps}
+                      onChange={(e) => setTargetFps(Number(e.target.value))}
+                      className="px-3 py-3 rounded-xl bg-white/10 border border-white/20 text-white text-sm"
+                      aria-label="Target frame rate"
+                    >
+                      {TARGET_FPS_OPTIONS.map(fps => (
+                        <option key={fps} value={fps} className="text-black">
+                          {fps} FPS
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={toggleDetection}
+                      disabled={calibration.isCalibrating}
+                      className={`px-6 py-3 rounded-xl font-medium flex items-center gap-2 transition-all duration-200 disabled:opacity-50 ${
+                        isDetecting
+                          ? 'bg-red-500 hover:bg-red-600 text-white'
+                          : 'bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white'
+                      }`}
+                    >
+                      {isDetecting ? (
+                        <>
+                          <Square className="w-4 h-4" />
+                          Stop Detection
+                        </>
+                      ) : (
+                        <>
+                          <Play className="w-4 h-4" />
+                          Start Detection
+                        </>
+                      )}
+                    </button>
                   </div>
-                  <div className="text-sm text-slate-300">
-                    Confidence: {(currentEmotion.confidence * 100).toFixed(1)}%
-                  </div>
-                  <div className="w-full bg-white/20 rounded-full h-2 mt-2">
-                    <div
-                      className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${currentEmotion.confidence * 100}%` }}
+                </div>
+
+                {/* Input Source */}
+                <SourcePicker source={source} onChange={changeSource} disabled={isDetecting || calibration.isCalibrating} />
+
+                {/* Room Controls */}
+                <div className="flex flex-wrap items-center gap-3 mb-6">
+                  <input
+                    type="text"
+                    value={roomInput}
+                    onChange={(e) => setRoomInput(e.target.value)}
+                    disabled={!!roomId}
+                    placeholder="Room name"
+                    className="flex-1 min-w-0 px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-white placeholder-slate-400 disabled:opacity-50"
+                  />
+                  <button
+                    onClick={toggleCall}
+                    disabled={!isConnected || !localStream}
+                    className={`px-4 py-2 rounded-xl font-medium flex items-center gap-2 transition-all duration-200 disabled:opacity-50 ${
+                      roomId
+                        ? 'bg-red-500 hover:bg-red-600 text-white'
+                        : 'bg-green-500 hover:bg-green-600 text-white'
+                    }`}
+                  >
+                    {roomId ? (
+                      <>
+                        <PhoneOff className="w-4 h-4" />
+                        Leave Room
+                      </>
+                    ) : (
+                      <>
+                        <PhoneCall className="w-4 h-4" />
+                        Join Room
+                      </>
+                    )}
+                  </button>
+                  {roomId && (
+                    <div className="flex items-center gap-2 text-sm text-slate-300">
+                      <Users className="w-4 h-4" />
+                      {remoteEntries.length + 1} in "{roomId}"
+                    </div>
+                  )}
+                </div>
+
+                <div className={`grid gap-4 ${remoteEntries.length > 0 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1'}`}>
+                  <VideoStream
+                    isDetecting={isDetecting}
+                    onEmotionDetected={handleEmotionDetected}
+                    currentEmotion={currentEmotion}
+                    onStreamReady={setLocalStream}
+                    smoothing={smoothing}
+                    onEmotionTransition={handleEmotionTransition}
+                    onFacesCounted={handleFacesCounted}
+                    source={source}
+                    onAnalysisComplete={stopDetection}
+                    captureMode={captureMode}
+                    onSampleCaptured={handleSampleCaptured}
+                    baseline={calibration.profile?.features}
+                    calibrating={calibration.isCalibrating}
+                    onCalibrationFrame={calibration.addFrame}
+                    classifierId={classifierId}
+                    targetFps={targetFps}
+                    showDiagnostics={showDiagnostics}
+                    overlay={overlay}
+                  />
+
+                  {remoteEntries.map(([peerId, stream]) => (
+                    <RemoteVideo
+                      key={peerId}
+                      participantId={peerId}
+                      stream={stream}
+                      emotion={peerEmotions[peerId]}
                     />
-                  </div>
+                  ))}
                 </div>
               </div>
-            )}
+            </div>
 
-            {/* Stats Panel */}
-            <StatsPanel stats={stats} />
+            {/* Sidebar */}
+            <div className="space-y-6">
+              {/* Current Emotion */}
+              {currentEmotion && (
+                <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+                  <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                    <Activity className="w-5 h-5" />
+                    Current Emotion
+                  </h3>
+                  <div className="text-center">
+                    <div className="text-3xl mb-2">
+                      {getEmotionDefinition(currentEmotion.emotion).emoji}
+                    </div>
+                    <div className="text-xl font-bold text-white mb-2">
+                      {getEmotionDefinition(currentEmotion.emotion).label}
+                    </div>
+                    <div className="text-sm text-slate-300">
+                      Confidence: {(currentEmotion.confidence * 100).toFixed(1)}%
+                    </div>
+                    <div className="w-full bg-white/20 rounded-full h-2 mt-2">
+                      <div
+                        className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-300"
+                        style={{ width: `${currentEmotion.confidence * 100}%` }}
+                      />
+                    </div>
+                    {currentEmotion.classifier && (
+                      <div className="text-xs text-slate-400 mt-2">
+                        {CLASSIFIERS.find(({ id }) => id === currentEmotion.classifier?.id)?.name ?? currentEmotion.classifier.id}
+                        {' '}v{currentEmotion.classifier.version}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Neutral baseline */}
+              <CalibrationPanel
+                profile={calibration.profile}
+                isCalibrating={calibration.isCalibrating}
+                progress={calibration.progress}
+                error={calibration.error}
+                onStart={calibration.start}
+                onCancel={calibration.cancel}
+                onReset={calibration.reset}
+                disabled={isDetecting || isFileSource(source)}
+              />
+
+              {/* Detection canvas layers */}
+              <OverlaySettingsPanel settings={overlay} onChange={changeOverlay} />
+
+              {/* Labeled samples for the dataset */}
+              {(captureMode || samples.length > 0) && (
+                <CaptureReview
+                  samples={samples}
+                  onRelabel={relabelSample}
+                  onRemove={(id) => setSamples(prev => prev.filter(sample => sample.id !== id))}
+                  onClear={clearSamples}
+                />
+              )}
+
+              {/* Stats Panel */}
+              <StatsPanel
+                stats={stats}
+                live={statsSource === 'push'}
+                timeWindow={statsWindow}
+                onTimeWindowChange={setStatsWindow}
+                analytics={analytics}
+              />
+
+              {/* Alerts and their rules */}
+              <AlertsPanel
+                alerts={alerts}
+                sessionId={sessionId}
+                onClear={clearAlerts}
+                rules={alertRules.rules}
+                rulesError={alertRules.error}
+                onAddRule={alertRules.addRule}
+                onToggleRule={alertRules.setRuleEnabled}
+                onRemoveRule={alertRules.removeRule}
+              />
+            </div>
           </div>
-        </div>
 
-        {/* Emotion Chart */}
-        {emotions.length > 0 && (
-          <div className="mt-8">
-            <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
-              <div className="flex items-center gap-3 mb-6">
-                <BarChart3 className="w-6 h-6 text-white" />
-                <h2 className="text-xl font-semibold text-white">Emotion Trends</h2>
+          {/* Emotion Chart */}
+          {emotions.length > 0 && (
+            <div className="mt-8">
+              <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+                <div className="flex items-center justify-between mb-6">
+                  <div className="flex items-center gap-3">
+                    <BarChart3 className="w-6 h-6 text-white" />
+                    <h2 className="text-xl font-semibold text-white">Emotion Trends</h2>
+                  </div>
+                  {sessionId && <ExportMenu sessionId={sessionId} />}
+                </div>
+                <EmotionChart emotions={emotions} transitions={transitions} scoredEmotions={classifier?.emotions} />
               </div>
-              <EmotionChart emotions={emotions} />
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
+
+      <AlertToasts toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 }
@@ -0,0 +1,47 @@
+import React, { useEffect } from 'react';
+import { BellRing, X } from 'lucide-react';
+import { AlertEvent } from '../types/alerts';
+import { describeAlert } from '../utils/alerts';
+
+// Toasts close by themselves after this long
+const TOAST_DURATION_MS = 8000;
+
+interface AlertToastsProps {
+  toasts: AlertEvent[];
+  onDismiss: (id: number) => void;
+}
+
+const AlertToast: React.FC<{ alert: AlertEvent; onDismiss: (id: number) => void }> = ({ alert, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(alert.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [alert.id, onDismiss]);
+
+  return (
+    <div role="alert" className="flex items-start gap-3 bg-red-600/90 backdrop-blur-lg text-white rounded-xl p-4 shadow-lg border border-red-400/40">
+      <BellRing className="w-5 h-5 mt-0.5 shrink-0" />
+      <div className="flex-1 min-w-0">
+        <div className="font-semibold truncate">{alert.ruleName}</div>
+        <div className="text-sm text-red-100">{describeAlert(alert)}</div>
+      </div>
+      <button onClick={() => onDismiss(alert.id)} className="text-red-100 hover:text-white" aria-label="Dismiss alert">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+// Alerts as they fire, stacked in the bottom-right corner
+const AlertToasts: React.FC<AlertToastsProps> = ({ toasts, onDismiss }) => {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2">
+      {toasts.map(alert => (
+        <AlertToast key={alert.id} alert={alert} onDismiss={onDismiss} />
+      ))}
+    </div>
+  );
+};
+
+export default AlertToasts;
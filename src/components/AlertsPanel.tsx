@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Bell, Plus, Trash2 } from 'lucide-react';
+import { AlertEvent, AlertRule, AlertRuleInput, AlertRuleType } from '../types/alerts';
+import { Emotion } from '../types/emotion';
+import { describeAlert, describeRule } from '../utils/alerts';
+import { EMOTION_DEFINITIONS } from '../../shared/emotions';
+
+// Alerts listed before the rest are cut off
+const VISIBLE_ALERTS = 8;
+
+interface AlertsPanelProps {
+  alerts: AlertEvent[];
+  // Alerts of other sessions come from participants in the same room
+  sessionId: string | null;
+  onClear: () => void;
+  rules: AlertRule[];
+  rulesError: string | null;
+  onAddRule: (rule: AlertRuleInput) => Promise<boolean>;
+  onToggleRule: (rule: AlertRule, enabled: boolean) => void;
+  onRemoveRule: (id: string) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 rounded-xl bg-white/10 border border-white/20 text-white text-sm focus:outline-none focus:border-purple-400';
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  alerts,
+  sessionId,
+  onClear,
+  rules,
+  rulesError,
+  onAddRule,
+  onToggleRule,
+  onRemoveRule,
+}) => {
+  // New rule form; the default matches sustained anger or sadness
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AlertRuleType>('emotion');
+  const [emotions, setEmotions] = useState<Emotion[]>(['angry', 'sad']);
+  const [minConfidence, setMinConfidence] = useState(70);
+  const [seconds, setSeconds] = useState(20);
+
+  const toggleEmotion = (emotion: Emotion) => {
+    setEmotions(prev => (prev.includes(emotion) ? prev.filter(item => item !== emotion) : [...prev, emotion]));
+  };
+
+  const canAdd = name.trim() !== '' && seconds > 0 && (type === 'no-face' || emotions.length > 0);
+
+  const addRule = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const added = await onAddRule({
+      name: name.trim(),
+      type,
+      emotions: type === 'emotion' ? emotions : [],
+      minConfidence: type === 'emotion' ? minConfidence / 100 : 0,
+      duration: seconds * 1000,
+      enabled: true,
+    });
+    if (added) setName('');
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <Bell className="w-5 h-5" />
+        Alerts
+        {alerts.length > 0 && (
+          <button onClick={onClear} className="ml-auto text-xs font-normal text-slate-400 hover:text-white">
+            Clear
+          </button>
+        )}
+      </h3>
+
+      {alerts.length === 0 ? (
+        <p className="text-sm text-slate-400 mb-6">No alerts in this session.</p>
+      ) : (
+        <ul className="space-y-2 mb-6">
+          {alerts.slice(0, VISIBLE_ALERTS).map(alert => (
+            <li key={alert.id} className="flex items-start justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <div className="text-white truncate">{alert.ruleName}</div>
+                <div className="text-slate-400">
+                  {describeAlert(alert)}
+                  {alert.sessionId !== sessionId && ' · another participant'}
+                </div>
+              </div>
+              <span className="text-xs text-slate-400 shrink-0">
+                {new Date(alert.receivedAt).toLocaleTimeString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h4 className="text-sm font-medium text-white mb-3">Rules</h4>
+      {rulesError && <p className="text-sm text-red-400 mb-3">{rulesError}</p>}
+      {rules.length === 0 ? (
+        <p className="text-sm text-slate-400 mb-4">No rules yet. Alerts fire only for rules added here.</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(event) => onToggleRule(rule, event.target.checked)}
+                className="mt-1 accent-purple-500"
+                aria-label={`Enable ${rule.name}`}
+              />
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm text-white truncate">{rule.name}</span>
+                <span className="block text-xs text-slate-400">{describeRule(rule)}</span>
+              </span>
+              <button
+                onClick={() => onRemoveRule(rule.id)}
+                className="text-slate-400 hover:text-red-400"
+                aria-label={`Delete ${rule.name}`}
+                title="Delete rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* New rule */}
+      <form onSubmit={addRule} className="space-y-3 pt-4 border-t border-white/10">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Rule name"
+          className={inputClass}
+          aria-label="Rule name"
+        />
+        <select
+          value={type}
+          onChange={(event) => setType(event.target.value as AlertRuleType)}
+          className={inputClass}
+          aria-label="Rule type"
+        >
+          <option value="emotion" className="bg-slate-800">Emotion held</option>
+          <option value="no-face" className="bg-slate-800">No face detected</option>
+        </select>
+
+        {type === 'emotion' && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {EMOTION_DEFINITIONS.map(({ id, label, emoji }) => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => toggleEmotion(id)}
+                  className={`px-2 py-1 rounded-lg text-xs transition-all duration-200 ${
+                    emotions.includes(id)
+                      ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white'
+                      : 'bg-white/10 hover:bg-white/20 text-slate-300'
+                  }`}
+                  aria-pressed={emotions.includes(id)}
+                >
+                  {emoji} {label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+              Min. confidence (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={minConfidence}
+                onChange={(event) => setMinConfidence(Math.min(100, Math.max(0, Number(event.target.value))))}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+          </>
+        )}
+
+        <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+          For at least (s)
+          <input
+            type="number"
+            min={1}
+            value={seconds}
+            onChange={(event) => setSeconds(Math.max(0, Number(event.target.value)))}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+
+        <button
+          type="submit"
+          disabled={!canAdd}
+          className="w-full px-4 py-2 rounded-xl font-medium flex items-center justify-center gap-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Rule
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AlertsPanel;
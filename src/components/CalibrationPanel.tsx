@@ -0,0 +1,89 @@
+import React from 'react';
+import { RotateCcw, ScanFace } from 'lucide-react';
+import { CALIBRATION_DURATION_MS, CalibrationProfile } from '../utils/calibration';
+
+interface CalibrationPanelProps {
+  profile: CalibrationProfile | null;
+  isCalibrating: boolean;
+  progress: number;
+  error: string | null;
+  onStart: () => void;
+  onCancel: () => void;
+  onReset: () => void;
+  // Calibration needs the live camera and a pause in detection
+  disabled?: boolean;
+}
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  profile,
+  isCalibrating,
+  progress,
+  error,
+  onStart,
+  onCancel,
+  onReset,
+  disabled = false,
+}) => {
+  const seconds = CALIBRATION_DURATION_MS / 1000;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <ScanFace className="w-5 h-5" />
+        Calibration
+      </h3>
+
+      {isCalibrating ? (
+        <div>
+          <p className="text-sm text-slate-300 mb-3">
+            {progress > 0
+              ? `Hold still with a neutral expression... ${Math.ceil(seconds * (1 - progress))}s`
+              : 'Waiting for your face...'}
+          </p>
+          <div className="w-full bg-white/20 rounded-full h-2 mb-4">
+            <div
+              className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-100"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+          <button
+            onClick={onCancel}
+            className="w-full px-4 py-2 rounded-xl font-medium bg-white/10 hover:bg-white/20 text-white"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div>
+          <p className="text-sm text-slate-300 mb-4">
+            {profile
+              ? `Calibrated ${new Date(profile.createdAt).toLocaleString()} from ${profile.sampleCount} frames.`
+              : `Using default thresholds. Look at the camera neutrally for ${seconds} seconds so expressions are read relative to your own resting face.`}
+          </p>
+          {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={onStart}
+              disabled={disabled}
+              className="flex-1 px-4 py-2 rounded-xl font-medium bg-gradient-to-r from-blue-500 to-purple-600 text-white disabled:opacity-50"
+            >
+              {profile ? 'Recalibrate' : 'Calibrate'}
+            </button>
+            {profile && (
+              <button
+                onClick={onReset}
+                className="px-4 py-2 rounded-xl font-medium flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white"
+                aria-label="Reset to default thresholds"
+                title="Reset to default thresholds"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
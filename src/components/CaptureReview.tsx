@@ -0,0 +1,125 @@
+import React from 'react';
+import { Download, Tag, Trash2, X } from 'lucide-react';
+import { LabeledSample } from '../types/dataset';
+import { Emotion, FaceLandmarks } from '../types/emotion';
+import { downloadDataset } from '../utils/dataset';
+import { keypointBounds } from '../utils/emotionPipeline';
+import { EMOTIONS, getEmotionDefinition } from '../../shared/emotions';
+
+interface CaptureReviewProps {
+  samples: LabeledSample[];
+  onRelabel: (id: string, emotion: Emotion) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const PREVIEW_SIZE = 56;
+
+// Outline of the captured mesh, so a sample can be checked without the video frame
+const MeshPreview: React.FC<{ keypoints: FaceLandmarks[] }> = ({ keypoints }) => {
+  const { xMin, yMin, xMax, yMax } = keypointBounds(keypoints);
+  const size = Math.max(xMax - xMin, yMax - yMin, 1);
+  return (
+    <svg
+      viewBox={`${xMin} ${yMin} ${size} ${size}`}
+      width={PREVIEW_SIZE}
+      height={PREVIEW_SIZE}
+      className="shrink-0 rounded-lg bg-black/40"
+    >
+      {keypoints.filter((_, index) => index % 3 === 0).map((point, index) => (
+        <circle key={index} cx={point.x} cy={point.y} r={size / 120} fill="#00FF00" />
+      ))}
+    </svg>
+  );
+};
+
+const CaptureReview: React.FC<CaptureReviewProps> = ({ samples, onRelabel, onRemove, onClear }) => {
+  const counts = EMOTIONS.map(emotion => ({
+    emotion,
+    count: samples.filter(sample => sample.emotion === emotion).length,
+  }));
+  const firstTimestamp = samples.length > 0 ? Math.min(...samples.map(sample => sample.timestamp)) : 0;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+        <Tag className="w-5 h-5" />
+        Captured Samples
+      </h3>
+      <p className="text-sm text-slate-400 mb-4">
+        Press {EMOTIONS.map((emotion, index) => `${index + 1} for ${getEmotionDefinition(emotion).label}`).join(', ')} while detecting.
+        Only face landmarks are kept, never the video.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {counts.map(({ emotion, count }) => (
+          <span key={emotion} className="px-2 py-1 rounded-lg bg-white/10 text-xs text-slate-300">
+            {getEmotionDefinition(emotion).label}: {count}
+          </span>
+        ))}
+      </div>
+
+      {samples.length === 0 ? (
+        <div className="text-center text-slate-400 py-6 text-sm">No samples captured yet</div>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {samples.map(sample => (
+            <li key={sample.id} className="flex items-center gap-3 p-2 rounded-xl bg-white/5">
+              <MeshPreview keypoints={sample.keypoints} />
+              <div className="flex-1 min-w-0">
+                <select
+                  value={sample.emotion}
+                  onChange={(e) => onRelabel(sample.id, e.target.value as Emotion)}
+                  className="w-full px-2 py-1 rounded-lg bg-white/10 border border-white/20 text-white text-sm"
+                  aria-label="Sample label"
+                >
+                  {EMOTIONS.map(emotion => (
+                    <option key={emotion} value={emotion} className="text-black">
+                      {getEmotionDefinition(emotion).label}
+                    </option>
+                  ))}
+                </select>
+                <div className="text-xs text-slate-400 mt-1">
+                  +{((sample.timestamp - firstTimestamp) / 1000).toFixed(1)}s
+                  {sample.predicted && (
+                    <span className={sample.predicted === sample.emotion ? '' : 'text-yellow-400'}>
+                      {' '}· predicted {getEmotionDefinition(sample.predicted).label}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => onRemove(sample.id)}
+                className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-white/10"
+                aria-label="Remove sample"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2 mt-4">
+        <button
+          onClick={() => downloadDataset(samples)}
+          disabled={samples.length === 0}
+          className="flex-1 px-4 py-2 rounded-xl font-medium flex items-center justify-center gap-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Download Dataset
+        </button>
+        <button
+          onClick={onClear}
+          disabled={samples.length === 0}
+          className="px-4 py-2 rounded-xl font-medium flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white disabled:opacity-50"
+          aria-label="Discard all samples"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CaptureReview;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { EngineStats } from '../utils/faceAnalyzer';
+import { PerformanceStats } from '../utils/frameScheduler';
+
+export interface Diagnostics extends PerformanceStats, EngineStats {
+  // Null when frames are not paced, as in file analysis
+  targetFps: number | null;
+}
+
+interface DiagnosticsOverlayProps {
+  diagnostics: Diagnostics;
+  // Position classes, so the overlay can clear other overlays
+  className?: string;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(0)} KB`;
+
+const DiagnosticsOverlay: React.FC<DiagnosticsOverlayProps> = ({ diagnostics, className = 'bottom-4 left-4' }) => {
+  const { targetFps } = diagnostics;
+  const throttled = targetFps !== null && diagnostics.intervalMs > 1000 / targetFps + 1;
+  const rows = [
+    ['FPS', targetFps !== null ? `${diagnostics.fps} / ${targetFps}` : String(diagnostics.fps)],
+    ['Inference p50', `${diagnostics.inferenceP50Ms.toFixed(0)} ms`],
+    ['Inference p95', `${diagnostics.inferenceP95Ms.toFixed(0)} ms`],
+    ...(targetFps !== null
+      ? [
+          ['Interval', `${diagnostics.intervalMs.toFixed(0)} ms${throttled ? ' (backed off)' : ''}`],
+          ['Dropped', String(diagnostics.droppedFrames)],
+        ]
+      : []),
+    ['Thread', diagnostics.thread],
+    ['Backend', diagnostics.backend],
+    ['Tensors', String(diagnostics.numTensors)],
+    ['Memory', formatBytes(diagnostics.numBytes)],
+  ];
+
+  return (
+    <div className={`absolute ${className} bg-black/70 text-white px-3 py-2 rounded-lg font-mono text-xs pointer-events-none`}>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-slate-400">{label}</span>
+          <span className={label === 'Interval' && throttled ? 'text-yellow-400' : ''}>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiagnosticsOverlay;
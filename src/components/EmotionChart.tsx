@@ -1,62 +1,198 @@
-import React from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
+  ArcElement,
   Title,
   Tooltip,
   Legend,
+  Filler,
+  TooltipItem,
+  ChartData,
+  Plugin,
 } from 'chart.js';
-import { Line } from 'react-chartjs-2';
-import { EmotionData } from '../types/emotion';
+import { Bar, Doughnut, Line } from 'react-chartjs-2';
+import { AreaChart, GanttChart, Grid3x3, LineChart, PieChart } from 'lucide-react';
+import { AnalyticsScope } from '../types/analytics';
+import { Emotion, EmotionData, EmotionTransition } from '../types/emotion';
+import { formatClockTime, timeShare, toDwellPeriods } from '../utils/emotionTimeline';
+import EmotionHeatmap from './EmotionHeatmap';
+import { EMOTIONS, EMOTION_COLORS, EMOTION_DEFINITIONS, getEmotionDefinition } from '../../shared/emotions';
 
 ChartJS.register(
   CategoryScale,
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
+  ArcElement,
   Title,
   Tooltip,
-  Legend
+  Legend,
+  Filler
 );
 
+interface TransitionMarker {
+  // Timestamp of the change
+  at: number;
+  label: string;
+  color: string;
+}
+
+// Draws a dashed vertical line with a label wherever the emotion changed. The
+// chart keeps the plugins it was created with, so markers are read when drawing
+const createTransitionMarkerPlugin = (markers: React.MutableRefObject<TransitionMarker[]>): Plugin<'line'> => ({
+  id: 'transitionMarkers',
+  afterDatasetsDraw(chart) {
+    const { ctx, chartArea, scales } = chart;
+    ctx.save();
+    ctx.font = '11px sans-serif';
+    ctx.textAlign = 'center';
+    markers.current.forEach(({ at, label, color }) => {
+      const x = scales.x.getPixelForValue(at);
+      ctx.strokeStyle = color;
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(x, chartArea.top);
+      ctx.lineTo(x, chartArea.bottom);
+      ctx.stroke();
+      ctx.fillStyle = color;
+      ctx.fillText(label, x, chartArea.top + 12);
+    });
+    ctx.restore();
+  },
+});
+
+type ChartView = 'confidence' | 'scores' | 'timeline' | 'share' | 'hours';
+
+const CHART_VIEWS = [
+  { id: 'confidence', label: 'Confidence', icon: LineChart },
+  { id: 'scores', label: 'Score Share', icon: AreaChart },
+  { id: 'timeline', label: 'Timeline', icon: GanttChart },
+  { id: 'share', label: 'Time Share', icon: PieChart },
+  { id: 'hours', label: 'By Hour', icon: Grid3x3 },
+] as const;
+
 interface EmotionChartProps {
   emotions: EmotionData[];
+  // Emotion changes to mark on the timeline
+  transitions?: EmotionTransition[];
+  // Data behind the hour-of-day heatmap; all sessions by default
+  history?: { scope: AnalyticsScope; sessionId?: string };
+  // Emotions the active classifier can score; the others are marked label-only
+  scoredEmotions?: readonly Emotion[];
+}
+
+// Line colours that tell faces apart when more than one is tracked
+const faceColors = ['#FFFFFF', '#A78BFA', '#F472B6', '#22D3EE', '#FACC15', '#FB923C'];
+
+interface ConfidencePoint {
+  x: number;
+  y: number;
+  emotion: Emotion;
+  faceId?: number;
+}
+
+// One dwell period on the timeline: x spans start to end, y is the face
+interface DwellBar {
+  x: [number, number];
+  y: string;
 }
 
-const EmotionChart: React.FC<EmotionChartProps> = ({ emotions }) => {
-  const emotionColors = {
-    happy: '#10B981',
-    sad: '#3B82F6',
-    angry: '#EF4444',
-    surprised: '#F59E0B',
-    neutral: '#6B7280',
+const emotionLabel = (emotion: Emotion) => getEmotionDefinition(emotion).label;
+
+// Tenths of a second below a minute, minutes and seconds above
+const formatSeconds = (seconds: number) =>
+  seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+
+const tooltipStyle = {
+  backgroundColor: 'rgba(0, 0, 0, 0.8)',
+  titleColor: '#FFFFFF',
+  bodyColor: '#FFFFFF',
+  borderColor: '#374151',
+  borderWidth: 1,
+};
+
+const legendStyle = {
+  labels: {
+    color: '#FFFFFF',
+  },
+};
+
+const gridStyle = {
+  color: 'rgba(255, 255, 255, 0.1)',
+};
+
+const EmotionChart: React.FC<EmotionChartProps> = ({ emotions, transitions = [], history = { scope: 'global' }, scoredEmotions }) => {
+  const [view, setView] = useState<ChartView>('confidence');
+
+  // One series per tracked face; frames without a face id form a single series
+  const faceIds = [...new Set(emotions.map(emotion => emotion.faceId))];
+  const isMultiFace = faceIds.length > 1;
+  const faceLabel = (faceId?: number) => (faceId === undefined ? 'Face' : `Face ${faceId}`);
+
+  // Frame timestamps bound every time axis so the views line up
+  const timestamps = emotions.map(emotion => emotion.timestamp);
+  const firstTimestamp = Math.min(...timestamps);
+  const lastTimestamp = Math.max(...timestamps);
+
+  const timeScale = {
+    type: 'linear' as const,
+    min: firstTimestamp,
+    max: lastTimestamp,
+    title: {
+      display: true,
+      text: 'Time',
+      color: '#FFFFFF',
+    },
+    ticks: {
+      color: '#9CA3AF',
+      maxTicksLimit: 8,
+      callback: (value: string | number) => formatClockTime(Number(value)),
+    },
+    grid: gridStyle,
   };
 
+  // Skip transitions outside the frames shown
+  const markers: TransitionMarker[] = transitions
+    .filter(transition => transition.at >= firstTimestamp && transition.at <= lastTimestamp)
+    .map(transition => ({
+      at: transition.at,
+      label: `${isMultiFace ? `${faceLabel(transition.faceId)} ` : ''}→ ${emotionLabel(transition.to)}`,
+      color: EMOTION_COLORS[transition.to],
+    }));
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+  const transitionMarkerPlugin = useMemo(() => createTransitionMarkerPlugin(markersRef), []);
+
   // Prepare data for the chart
   const chartData = {
-    labels: emotions.map((_, index) => `${index + 1}`),
-    datasets: [
-      {
-        label: 'Emotion Confidence',
-        data: emotions.map(emotion => ({
-          x: emotions.indexOf(emotion),
-          y: emotion.confidence,
-          emotion: emotion.emotion,
-        })),
-        borderColor: emotions.map(emotion => emotionColors[emotion.emotion]),
-        backgroundColor: emotions.map(emotion => emotionColors[emotion.emotion] + '20'),
-        pointBackgroundColor: emotions.map(emotion => emotionColors[emotion.emotion]),
+    datasets: faceIds.map((faceId, faceIndex) => {
+      const points: ConfidencePoint[] = emotions
+        .filter(emotion => emotion.faceId === faceId)
+        .map(emotion => ({ x: emotion.timestamp, y: emotion.confidence, emotion: emotion.emotion, faceId: emotion.faceId }));
+
+      return {
+        label: isMultiFace ? faceLabel(faceId) : 'Emotion Confidence',
+        data: points,
+        borderColor: isMultiFace
+          ? faceColors[faceIndex % faceColors.length]
+          : points.map(point => EMOTION_COLORS[point.emotion]),
+        backgroundColor: points.map(point => EMOTION_COLORS[point.emotion] + '20'),
+        pointBackgroundColor: points.map(point => EMOTION_COLORS[point.emotion]),
         pointBorderColor: '#FFFFFF',
         pointBorderWidth: 2,
         pointRadius: 4,
         pointHoverRadius: 6,
         tension: 0.4,
-        fill: true,
-      },
-    ],
+        // Overlapping fills would hide each other
+        fill: !isMultiFace,
+      };
+    }),
   };
 
   const options = {
@@ -64,56 +200,174 @@ const EmotionChart: React.FC<EmotionChartProps> = ({ emotions }) => {
     maintainAspectRatio: false,
     plugins: {
       legend: {
-        display: false,
+        display: isMultiFace,
+        ...legendStyle,
       },
       tooltip: {
         callbacks: {
-          title: (context: any) => {
-            const index = context[0].dataIndex;
-            const emotion = emotions[index];
-            return `${emotion.emotion.charAt(0).toUpperCase() + emotion.emotion.slice(1)} Emotion`;
+          title: (context: TooltipItem<'line'>[]) => {
+            const point = context[0].raw as ConfidencePoint;
+            const title = `${emotionLabel(point.emotion)} Emotion`;
+            return isMultiFace ? `${faceLabel(point.faceId)} · ${title}` : title;
           },
-          label: (context: any) => {
+          label: (context: TooltipItem<'line'>) => {
             const confidence = (context.parsed.y * 100).toFixed(1);
-            return `Confidence: ${confidence}%`;
+            return [`Confidence: ${confidence}%`, formatClockTime(context.parsed.x)];
           },
         },
-        backgroundColor: 'rgba(0, 0, 0, 0.8)',
-        titleColor: '#FFFFFF',
-        bodyColor: '#FFFFFF',
-        borderColor: '#374151',
-        borderWidth: 1,
+        ...tooltipStyle,
       },
     },
     scales: {
-      x: {
+      x: timeScale,
+      y: {
+        min: 0,
+        max: 1,
         title: {
           display: true,
-          text: 'Time Sequence',
+          text: 'Confidence',
           color: '#FFFFFF',
         },
         ticks: {
           color: '#9CA3AF',
+          callback: (value: string | number) => `${(Number(value) * 100).toFixed(0)}%`,
         },
-        grid: {
-          color: 'rgba(255, 255, 255, 0.1)',
+        grid: gridStyle,
+      },
+    },
+  };
+
+  // Per-emotion score distribution for each face, stacked so each frame's shares add up to 100%
+  const scoreCharts = faceIds
+    .map(faceId => ({
+      faceId,
+      frames: emotions.filter(emotion => emotion.scores && emotion.faceId === faceId),
+    }))
+    .filter(({ frames }) => frames.length > 0);
+  const scoreChartData = (scoredEmotions: EmotionData[]) => ({
+    datasets: EMOTIONS.map(emotion => ({
+      label: emotionLabel(emotion),
+      data: scoredEmotions.map(frame => ({ x: frame.timestamp, y: frame.scores?.[emotion] ?? 0 })),
+      borderColor: EMOTION_COLORS[emotion],
+      backgroundColor: EMOTION_COLORS[emotion] + '80',
+      pointRadius: 0,
+      borderWidth: 1,
+      tension: 0.4,
+      fill: true,
+    })),
+  });
+
+  const scoreOptions = {
+    ...options,
+    plugins: {
+      legend: {
+        display: true,
+        ...legendStyle,
+      },
+      tooltip: {
+        mode: 'index' as const,
+        intersect: false,
+        callbacks: {
+          title: (context: TooltipItem<'line'>[]) => formatClockTime(context[0].parsed.x),
+          label: (context: TooltipItem<'line'>) =>
+            `${context.dataset.label}: ${(context.parsed.y * 100).toFixed(1)}%`,
         },
+        ...tooltipStyle,
       },
+    },
+    scales: {
+      x: timeScale,
       y: {
-        min: 0,
-        max: 1,
+        ...options.scales.y,
+        stacked: true,
         title: {
           display: true,
-          text: 'Confidence',
+          text: 'Score Share',
           color: '#FFFFFF',
         },
+      },
+    },
+  };
+
+  // Emotion ribbon: a floating bar per dwell period, one row per face
+  const periods = toDwellPeriods(emotions);
+  const timelineData: ChartData<'bar', DwellBar[]> = {
+    labels: faceIds.map(faceLabel),
+    datasets: EMOTIONS.map(emotion => ({
+      label: emotionLabel(emotion),
+      data: periods
+        .filter(period => period.emotion === emotion)
+        .map(period => ({ x: [period.start, period.end], y: faceLabel(period.faceId) })),
+      backgroundColor: EMOTION_COLORS[emotion],
+      borderSkipped: false,
+      borderRadius: 2,
+      // Bars of different emotions never overlap, so they share each row
+      grouped: false,
+      // Keep single frames visible
+      minBarLength: 2,
+    })),
+  };
+
+  const timelineOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    indexAxis: 'y' as const,
+    plugins: {
+      legend: {
+        display: true,
+        ...legendStyle,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'bar'>) => {
+            const [start, end] = (context.raw as DwellBar).x;
+            return `${context.dataset.label}: ${formatClockTime(start)} – ${formatClockTime(end)} (${formatSeconds((end - start) / 1000)})`;
+          },
+        },
+        ...tooltipStyle,
+      },
+    },
+    scales: {
+      x: timeScale,
+      y: {
         ticks: {
           color: '#9CA3AF',
-          callback: (value: any) => `${(value * 100).toFixed(0)}%`,
         },
-        grid: {
-          color: 'rgba(255, 255, 255, 0.1)',
+        grid: gridStyle,
+      },
+    },
+  };
+
+  // Seconds per emotion, by the same rule as the timeline
+  const secondsShown = timeShare(periods);
+  const totalSeconds = Object.values(secondsShown).reduce((a, b) => a + b, 0);
+  const shareData = {
+    labels: EMOTIONS.map(emotionLabel),
+    datasets: [{
+      data: EMOTIONS.map(emotion => secondsShown[emotion]),
+      backgroundColor: EMOTIONS.map(emotion => EMOTION_COLORS[emotion]),
+      borderColor: 'rgba(255, 255, 255, 0.2)',
+      borderWidth: 1,
+    }],
+  };
+
+  const shareOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    cutout: '60%',
+    plugins: {
+      legend: {
+        position: 'right' as const,
+        ...legendStyle,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'doughnut'>) => {
+            const percentage = totalSeconds > 0 ? (context.parsed / totalSeconds) * 100 : 0;
+            return `${context.label}: ${formatSeconds(context.parsed)} (${percentage.toFixed(1)}%)`;
+          },
         },
+        ...tooltipStyle,
       },
     },
   };
@@ -128,27 +382,84 @@ const EmotionChart: React.FC<EmotionChartProps> = ({ emotions }) => {
 
   return (
     <div className="space-y-6">
-      {/* Line Chart */}
-      <div className="h-64">
-        <Line data={chartData} options={options} />
+      {/* View Switcher */}
+      <div className="flex flex-wrap gap-2">
+        {CHART_VIEWS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => setView(id)}
+            className={`px-3 py-1.5 rounded-xl text-sm font-medium flex items-center gap-2 transition-all duration-200 ${
+              view === id
+                ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white'
+                : 'bg-white/10 hover:bg-white/20 text-slate-300'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
       </div>
 
+      {/* Confidence Over Time */}
+      {view === 'confidence' && (
+        <div className="h-64">
+          <Line data={chartData} options={options} plugins={[transitionMarkerPlugin]} />
+        </div>
+      )}
+
+      {/* Stacked Score Distribution */}
+      {view === 'scores' && (scoreCharts.length > 0 ? scoreCharts.map(({ faceId, frames }) => (
+        <div key={faceId ?? 'face'}>
+          {isMultiFace && (
+            <h4 className="text-sm font-medium text-white mb-2">{faceLabel(faceId)} score share</h4>
+          )}
+          <div className="h-64">
+            <Line data={scoreChartData(frames)} options={scoreOptions} />
+          </div>
+        </div>
+      )) : (
+        <p className="text-center text-sm text-slate-400 py-8">No per-emotion scores were recorded for these frames</p>
+      ))}
+
+      {/* Emotion Timeline */}
+      {view === 'timeline' && (
+        <div style={{ height: `${Math.max(8, 3 + faceIds.length * 3)}rem` }}>
+          <Bar data={timelineData} options={timelineOptions} />
+        </div>
+      )}
+
+      {/* Time Share */}
+      {view === 'share' && (
+        <div className="h-64">
+          <Doughnut data={shareData} options={shareOptions} />
+        </div>
+      )}
+
+      {/* Hour of Day Heatmap */}
+      {view === 'hours' && (
+        <EmotionHeatmap scope={history.scope} sessionId={history.sessionId} />
+      )}
+
       {/* Emotion Distribution */}
-      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-        {Object.entries(emotionColors).map(([emotion, color]) => {
+      <div className="grid grid-cols-[repeat(auto-fit,minmax(6rem,1fr))] gap-4">
+        {EMOTION_DEFINITIONS.map(({ id: emotion, label, emoji, color }) => {
           const count = emotionCounts[emotion] || 0;
           const percentage = totalEmotions > 0 ? (count / totalEmotions) * 100 : 0;
           
           return (
             <div key={emotion} className="text-center">
               <div className="text-2xl mb-2">
-                {emotion === 'happy' && '😊'}
-                {emotion === 'sad' && '😢'}
-                {emotion === 'angry' && '😠'}
-                {emotion === 'surprised' && '😲'}
-                {emotion === 'neutral' && '😐'}
+                {emoji}
               </div>
-              <div className="text-white font-medium capitalize mb-1">{emotion}</div>
+              <div className="text-white font-medium mb-1">{label}</div>
+              {scoredEmotions && !scoredEmotions.includes(emotion) && (
+                <div
+                  className="text-xs text-slate-400 mb-1"
+                  title="The current classifier cannot score this emotion; it only appears in captured labels and alert rules"
+                >
+                  Label only
+                </div>
+              )}
               <div className="text-sm text-slate-300 mb-2">
                 {count} ({percentage.toFixed(1)}%)
               </div>
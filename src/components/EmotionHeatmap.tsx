@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { AnalyticsScope } from '../types/analytics';
+import { EMOTIONS, EMOTION_DEFINITIONS, emotionRecord } from '../../shared/emotions';
+
+// Days of history folded onto the hours of the day
+const HISTORY_DAYS = 30;
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface EmotionHeatmapProps {
+  scope?: AnalyticsScope;
+  sessionId?: string;
+}
+
+/**
+ * Hour of day × emotion grid over the last 30 days of analytics. Each cell is
+ * the emotion's share of the time recorded in that hour, in local time.
+ */
+const EmotionHeatmap: React.FC<EmotionHeatmapProps> = ({ scope = 'global', sessionId }) => {
+  // Fixed when the heatmap opens, so the query stays the same between renders
+  const [from] = useState(() => Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const { analytics, error } = useAnalytics({ scope, sessionId, window: 'custom', from, bucket: '1h' });
+
+  const hours = useMemo(() => {
+    const seconds = HOURS.map(() => emotionRecord());
+    analytics?.series.forEach(bucket => {
+      const hour = new Date(bucket.start).getHours();
+      EMOTIONS.forEach(emotion => {
+        seconds[hour][emotion] += bucket.timeShare[emotion];
+      });
+    });
+    return seconds.map(share => {
+      const total = EMOTIONS.reduce((sum, emotion) => sum + share[emotion], 0);
+      return { share, total };
+    });
+  }, [analytics]);
+
+  if (error) {
+    return <p className="text-center text-sm text-red-400 py-8">{error}</p>;
+  }
+  if (!analytics) {
+    return <p className="text-center text-sm text-slate-400 py-8">Loading history...</p>;
+  }
+  if (analytics.frameCount === 0) {
+    return <p className="text-center text-sm text-slate-400 py-8">No emotion data in the last {HISTORY_DAYS} days</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid gap-px min-w-[560px]" style={{ gridTemplateColumns: `5rem repeat(${HOURS.length}, minmax(0, 1fr))` }}>
+        <div />
+        {HOURS.map(hour => (
+          <div key={hour} className="text-center text-[10px] text-slate-400">
+            {hour % 3 === 0 ? hour : ''}
+          </div>
+        ))}
+
+        {EMOTION_DEFINITIONS.map(({ id: emotion, label, color }) => (
+          <React.Fragment key={emotion}>
+            <div className="text-xs text-white pr-2 flex items-center">{label}</div>
+            {hours.map(({ share, total }, hour) => {
+              const fraction = total > 0 ? share[emotion] / total : 0;
+              return (
+                <div
+                  key={hour}
+                  className="h-6 rounded-sm bg-white/5"
+                  style={{ backgroundColor: fraction > 0 ? color : undefined, opacity: fraction > 0 ? 0.15 + fraction * 0.85 : 1 }}
+                  title={`${label}, ${hour}:00–${hour + 1}:00: ${(fraction * 100).toFixed(0)}% of ${Math.round(total / 60)} min`}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400 mt-3">
+        Share of each hour's recorded time over the last {HISTORY_DAYS} days, by local hour of day.
+      </p>
+    </div>
+  );
+};
+
+export default EmotionHeatmap;
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Download } from 'lucide-react';
+import { ExportFormat, sessionExportUrl } from '../utils/api';
+
+interface ExportMenuProps {
+  sessionId: string;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'csv', label: 'CSV', description: 'One row per frame with all scores' },
+  { format: 'json', label: 'JSON', description: 'Session summary and full timeline' },
+  { format: 'ndjson', label: 'NDJSON', description: 'One frame per line, for streaming tools' },
+  { format: 'html', label: 'Report', description: 'Printable summary with timeline chart' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ sessionId }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 rounded-xl font-medium flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white transition-all duration-200"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-4 h-4" />
+        Export
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-72 z-10 rounded-xl bg-slate-800 border border-white/20 shadow-xl overflow-hidden"
+        >
+          {EXPORT_OPTIONS.map(({ format, label, description }) => (
+            <a
+              key={format}
+              role="menuitem"
+              href={sessionExportUrl(sessionId, format)}
+              download
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-3 hover:bg-white/10 transition-colors duration-200"
+            >
+              <div className="text-white font-medium">{label}</div>
+              <div className="text-sm text-slate-400">{description}</div>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { OverlaySettings } from '../utils/overlayRenderer';
+
+interface OverlaySettingsPanelProps {
+  settings: OverlaySettings;
+  onChange: (settings: OverlaySettings) => void;
+}
+
+const OPTIONS: { key: keyof OverlaySettings; label: string; description: string }[] = [
+  { key: 'mesh', label: 'Face mesh', description: 'All 468 landmarks, connected' },
+  { key: 'contours', label: 'Contours', description: 'Eyes, brows, lips and face outline' },
+  { key: 'box', label: 'Bounding box', description: 'Colored by the detected emotion' },
+  { key: 'label', label: 'Emotion label', description: 'Face, emotion and confidence' },
+  { key: 'scores', label: 'Score chart', description: 'A bar for every emotion' },
+  { key: 'mirrored', label: 'Mirror camera', description: 'Selfie view; files are never mirrored' },
+];
+
+const OverlaySettingsPanel: React.FC<OverlaySettingsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <Layers className="w-5 h-5" />
+        Overlay
+      </h3>
+
+      <div className="space-y-3">
+        {OPTIONS.map(({ key, label, description }) => (
+          <label key={key} className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              onChange={(event) => onChange({ ...settings, [key]: event.target.checked })}
+              className="mt-1 accent-purple-500"
+            />
+            <span>
+              <span className="block text-sm text-white">{label}</span>
+              <span className="block text-xs text-slate-400">{description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OverlaySettingsPanel;
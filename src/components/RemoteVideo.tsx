@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { User } from 'lucide-react';
+import { EmotionData } from '../types/emotion';
+import { getEmotionDefinition } from '../../shared/emotions';
+
+interface RemoteVideoProps {
+  participantId: string;
+  stream: MediaStream;
+  emotion?: EmotionData | null;
+}
+
+const RemoteVideo: React.FC<RemoteVideoProps> = ({ participantId, stream, emotion }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <div className="relative rounded-xl overflow-hidden bg-black">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        className="w-full h-auto"
+      />
+
+      {/* Participant's current emotion */}
+      {emotion && (
+        <div className="absolute top-4 right-4 bg-black/70 text-white px-4 py-2 rounded-lg">
+          <div className="flex items-center gap-2">
+            <div className="text-2xl">
+              {getEmotionDefinition(emotion.emotion).emoji}
+            </div>
+            <div>
+              <div className="font-semibold">{getEmotionDefinition(emotion.emotion).label}</div>
+              <div className="text-sm text-gray-300">
+                {(emotion.confidence * 100).toFixed(1)}%
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="absolute bottom-4 left-4 bg-black/70 text-white px-3 py-1 rounded-lg flex items-center gap-2 text-sm">
+        <User className="w-4 h-4" />
+        {participantId.slice(0, 8)}
+      </div>
+    </div>
+  );
+};
+
+export default RemoteVideo;
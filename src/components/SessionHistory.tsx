@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronRight, History, RefreshCw } from 'lucide-react';
+import SessionReplay from './SessionReplay';
+import { SessionSummary } from '../types/session';
+import { fetchSessions } from '../utils/api';
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}m ${secs}s`;
+};
+
+const SessionHistory: React.FC = () => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSessions(await fetchSessions());
+    } catch (err) {
+      console.error('Failed to fetch sessions:', err);
+      setError('Failed to load sessions from the server.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  if (selectedId) {
+    return <SessionReplay sessionId={selectedId} onBack={() => setSelectedId(null)} />;
+  }
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <History className="w-6 h-6 text-white" />
+          <h2 className="text-xl font-semibold text-white">Session History</h2>
+        </div>
+        <button
+          onClick={loadSessions}
+          disabled={isLoading}
+          className="px-4 py-2 rounded-xl font-medium flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white transition-all duration-200 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && <p className="text-center text-red-400 py-8">{error}</p>}
+
+      {!error && !isLoading && sessions.length === 0 && (
+        <div className="text-center text-slate-400 py-8">
+          <History className="w-12 h-12 mx-auto mb-4 opacity-50" />
+          <p>No finished sessions yet</p>
+          <p className="text-sm mt-2">Sessions appear here once they end</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {sessions.map(session => (
+          <button
+            key={session.id}
+            onClick={() => setSelectedId(session.id)}
+            className="w-full flex items-center justify-between px-4 py-3 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 text-left transition-all duration-200"
+          >
+            <div>
+              <div className="text-white font-medium">
+                {new Date(session.start).toLocaleString()}
+              </div>
+              <div className="text-sm text-slate-400">
+                {session.duration !== null ? formatDuration(session.duration) : 'In progress'}
+                {' · '}
+                <span className="font-mono">{session.id.slice(0, 8)}</span>
+              </div>
+            </div>
+            <ChevronRight className="w-5 h-5 text-slate-400" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,219 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, BarChart3, Pause, Play } from 'lucide-react';
+import EmotionChart from './EmotionChart';
+import ExportMenu from './ExportMenu';
+import StatsPanel from './StatsPanel';
+import { EmotionStats } from '../types/emotion';
+import { SessionDetail, StoredEmotion, StoredTransition } from '../types/session';
+import { fetchSession, fetchSessionEmotions, fetchSessionTransitions } from '../utils/api';
+
+interface SessionReplayProps {
+  sessionId: string;
+  onBack: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8];
+const TICK_MS = 100;
+// Frames per face shown in the chart at once, matching the live view
+const CHART_WINDOW = 50;
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const mins = Math.floor(totalSeconds / 60);
+  const secs = totalSeconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const SessionReplay: React.FC<SessionReplayProps> = ({ sessionId, onBack }) => {
+  const [session, setSession] = useState<SessionDetail | null>(null);
+  const [timeline, setTimeline] = useState<StoredEmotion[]>([]);
+  const [transitions, setTransitions] = useState<StoredTransition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [detail, emotions, changes] = await Promise.all([
+          fetchSession(sessionId),
+          fetchSessionEmotions(sessionId),
+          fetchSessionTransitions(sessionId),
+        ]);
+        if (cancelled) return;
+        setSession(detail);
+        setTimeline(emotions);
+        setTransitions(changes);
+        setPosition(0);
+      } catch (err) {
+        console.error('Failed to load session:', err);
+        if (!cancelled) setError('Failed to load this session.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const startTime = timeline.length > 0 ? timeline[0].timestamp : 0;
+  const duration = timeline.length > 0 ? timeline[timeline.length - 1].timestamp - startTime : 0;
+
+  // Advance the playhead while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setPosition(prev => Math.min(duration, prev + TICK_MS * speed));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, duration]);
+
+  // Stop at the end of the timeline
+  useEffect(() => {
+    if (isPlaying && position >= duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, position, duration]);
+
+  // Frames up to the playhead; timestamps are sorted, so count them by scanning
+  const played = useMemo(() => {
+    const cutoff = startTime + position;
+    let count = 0;
+    while (count < timeline.length && timeline[count].timestamp <= cutoff) {
+      count += 1;
+    }
+    return timeline.slice(0, count);
+  }, [timeline, startTime, position]);
+
+  const faceCount = useMemo(
+    () => Math.max(1, new Set(timeline.map(frame => frame.faceId)).size),
+    [timeline]
+  );
+
+  const stats: EmotionStats | null = session && {
+    totalSessions: 1,
+    averageSessionDuration: session.duration ?? (Date.now() - session.start) / 1000,
+    emotionDistribution: session.emotionDistribution,
+    peakEmotion: session.peakEmotion,
+    confidenceAverage: session.confidenceAverage,
+    transitionCount: session.transitionCount,
+  };
+
+  const togglePlayback = () => {
+    // Restart from the beginning when playback already reached the end
+    if (!isPlaying && position >= duration) {
+      setPosition(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2">
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+              <BarChart3 className="w-6 h-6 text-white" />
+              <div>
+                <h2 className="text-xl font-semibold text-white">Session Replay</h2>
+                {session && (
+                  <p className="text-sm text-slate-400">
+                    {new Date(session.start).toLocaleString()} · {session.emotionCount} frames
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <ExportMenu sessionId={sessionId} />
+              <button
+                onClick={onBack}
+                className="px-4 py-2 rounded-xl font-medium flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white transition-all duration-200"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                All Sessions
+              </button>
+            </div>
+          </div>
+
+          {isLoading && (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
+              <p className="text-white">Loading session...</p>
+            </div>
+          )}
+
+          {error && <p className="text-center text-red-400 py-12">{error}</p>}
+
+          {!isLoading && !error && timeline.length === 0 && (
+            <p className="text-center text-slate-400 py-12">This session has no recorded emotions.</p>
+          )}
+
+          {!isLoading && !error && timeline.length > 0 && (
+            <div className="space-y-6">
+              {/* Playback Controls */}
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={togglePlayback}
+                  className="p-3 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white"
+                  aria-label={isPlaying ? 'Pause' : 'Play'}
+                >
+                  {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                </button>
+                <span className="text-sm text-slate-300 tabular-nums">{formatTime(position)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={duration}
+                  step={TICK_MS}
+                  value={position}
+                  onChange={(e) => setPosition(Number(e.target.value))}
+                  className="flex-1"
+                  aria-label="Playback position"
+                />
+                <span className="text-sm text-slate-300 tabular-nums">{formatTime(duration)}</span>
+                <select
+                  value={speed}
+                  onChange={(e) => setSpeed(Number(e.target.value))}
+                  className="px-2 py-1 rounded-lg bg-white/10 border border-white/20 text-white text-sm"
+                  aria-label="Playback speed"
+                >
+                  {PLAYBACK_SPEEDS.map(value => (
+                    <option key={value} value={value} className="text-black">
+                      {value}×
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {played.length > 0 ? (
+                <EmotionChart
+                  emotions={played.slice(-CHART_WINDOW * faceCount)}
+                  transitions={transitions}
+                  history={{ scope: 'session', sessionId }}
+                />
+              ) : (
+                <p className="text-center text-slate-400 py-12">Press play to replay this session.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <StatsPanel stats={stats} title="Session Summary" />
+      </div>
+    </div>
+  );
+};
+
+export default SessionReplay;
@@ -0,0 +1,70 @@
+import React, { useRef } from 'react';
+import { Camera, FileVideo, FolderOpen } from 'lucide-react';
+import { InputSource, WEBCAM_SOURCE, describeSource, sortImageFiles } from '../utils/inputSource';
+
+interface SourcePickerProps {
+  source: InputSource;
+  onChange: (source: InputSource) => void;
+  disabled?: boolean;
+}
+
+const SourcePicker: React.FC<SourcePickerProps> = ({ source, onChange, disabled = false }) => {
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleVideoFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onChange({ kind: 'video', file });
+    event.target.value = '';
+  };
+
+  const handleImageFolder = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = sortImageFiles(event.target.files ?? []);
+    if (files.length > 0) onChange({ kind: 'images', files });
+    event.target.value = '';
+  };
+
+  const options = [
+    { kind: 'webcam', label: 'Camera', icon: Camera, onClick: () => onChange(WEBCAM_SOURCE) },
+    { kind: 'video', label: 'Video File', icon: FileVideo, onClick: () => videoInputRef.current?.click() },
+    { kind: 'images', label: 'Image Folder', icon: FolderOpen, onClick: () => folderInputRef.current?.click() },
+  ] as const;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      {options.map(({ kind, label, icon: Icon, onClick }) => (
+        <button
+          key={kind}
+          onClick={onClick}
+          disabled={disabled}
+          className={`px-3 py-2 rounded-xl text-sm font-medium flex items-center gap-2 transition-all duration-200 disabled:opacity-50 ${
+            source.kind === kind
+              ? 'bg-white/20 text-white'
+              : 'bg-white/5 hover:bg-white/10 text-slate-300'
+          }`}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      ))}
+      {source.kind !== 'webcam' && (
+        <span className="text-sm text-slate-400 truncate">{describeSource(source)}</span>
+      )}
+
+      <input ref={videoInputRef} type="file" accept="video/*" className="hidden" onChange={handleVideoFile} />
+      {/* Directory selection is not part of the standard input attributes */}
+      <input
+        ref={(input) => {
+          folderInputRef.current = input;
+          input?.setAttribute('webkitdirectory', '');
+        }}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleImageFolder}
+      />
+    </div>
+  );
+};
+
+export default SourcePicker;
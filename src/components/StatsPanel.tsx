@@ -1,12 +1,45 @@
 import React from 'react';
-import { TrendingUp, Clock, Target, Users } from 'lucide-react';
-import { EmotionStats } from '../types/emotion';
+import { TrendingUp, Clock, Target, Users, Shuffle, Radio } from 'lucide-react';
+import { Analytics } from '../types/analytics';
+import { Emotion, EmotionStats } from '../types/emotion';
+import { EMOTIONS, getEmotionDefinition } from '../../shared/emotions';
+
+// All data, or a window ending now
+export type StatsWindow = 'all' | '5m' | '1h' | '24h';
+
+const WINDOW_LABELS: Record<StatsWindow, string> = {
+  all: 'All time',
+  '5m': 'Last 5 minutes',
+  '1h': 'Last hour',
+  '24h': 'Last 24 hours',
+};
 
 interface StatsPanelProps {
   stats: EmotionStats | null;
+  title?: string;
+  // Stats are pushed by the server as they change rather than polled
+  live?: boolean;
+  // Shows a window selector when given
+  timeWindow?: StatsWindow;
+  onTimeWindowChange?: (timeWindow: StatsWindow) => void;
+  // Figures for the selected window; null while they load
+  analytics?: Analytics | null;
 }
 
-const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
+// Whole seconds below a minute, minutes and seconds above
+const formatSeconds = (seconds: number) =>
+  seconds < 60 ? `${Math.round(seconds)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+
+const StatsPanel: React.FC<StatsPanelProps> = ({
+  stats,
+  title = 'Session Analytics',
+  live = false,
+  timeWindow = 'all',
+  onTimeWindowChange,
+  analytics = null,
+}) => {
+  const windowed = timeWindow !== 'all';
+
   if (!stats) {
     return (
       <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
@@ -29,16 +62,57 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
     return `${mins}m ${secs}s`;
   };
 
-  const mostCommonEmotion = Object.entries(stats.emotionDistribution)
-    .sort(([,a], [,b]) => b - a)[0];
+  // Windowed figures weigh emotions by how long they were shown, all-time ones by frame count
+  const summary = windowed
+    ? analytics && {
+        peakLabel: 'Dominant Emotion',
+        peak: analytics.dominantEmotion,
+        peakDetail: analytics.dominantEmotion
+          ? `${formatSeconds(analytics.timeShare[analytics.dominantEmotion])} shown`
+          : 'No frames in this window',
+        confidence: analytics.confidence.mean,
+        confidenceSpread: Math.sqrt(analytics.confidence.variance),
+        distributionLabel: 'Time Share',
+        distribution: analytics.timeShare,
+        formatValue: formatSeconds,
+      }
+    : {
+        peakLabel: 'Most Common Emotion',
+        peak: stats.peakEmotion as Emotion,
+        peakDetail: `${stats.emotionDistribution[stats.peakEmotion as Emotion] ?? 0} frames`,
+        confidence: stats.confidenceAverage,
+        confidenceSpread: null,
+        distributionLabel: 'Emotion Distribution',
+        distribution: stats.emotionDistribution,
+        formatValue: (count: number) => String(count),
+      };
 
   return (
     <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-6 border border-white/20">
       <h3 className="text-lg font-semibold text-white mb-6 flex items-center gap-2">
         <TrendingUp className="w-5 h-5" />
-        Session Analytics
+        {title}
+        {live && !windowed && (
+          <span className="ml-auto flex items-center gap-1 text-xs font-normal text-green-400" title="Updated live by the server">
+            <Radio className="w-3 h-3" />
+            Live
+          </span>
+        )}
       </h3>
 
+      {onTimeWindowChange && (
+        <select
+          value={timeWindow}
+          onChange={(e) => onTimeWindowChange(e.target.value as StatsWindow)}
+          className="w-full mb-6 px-3 py-2 rounded-xl bg-white/10 border border-white/20 text-white text-sm focus:outline-none focus:border-purple-400"
+          aria-label="Analytics window"
+        >
+          {Object.entries(WINDOW_LABELS).map(([value, label]) => (
+            <option key={value} value={value} className="bg-slate-800">{label}</option>
+          ))}
+        </select>
+      )}
+
       <div className="space-y-6">
         {/* Key Metrics */}
         <div className="grid grid-cols-2 gap-4">
@@ -62,69 +136,98 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
         </div>
 
         {/* Peak Emotion */}
-        <div className="text-center">
-          <div className="flex items-center justify-center w-12 h-12 bg-green-500/20 rounded-xl mb-3 mx-auto">
-            <Target className="w-6 h-6 text-green-400" />
-          </div>
-          <div className="text-xl font-bold text-white capitalize mb-1">
-            {mostCommonEmotion?.[0] || 'None'}
-          </div>
-          <div className="text-sm text-slate-300">Most Common Emotion</div>
-          <div className="text-sm text-slate-400">
-            {mostCommonEmotion?.[1] || 0} detections
+        {summary ? (
+          <div className="text-center">
+            <div className="flex items-center justify-center w-12 h-12 bg-green-500/20 rounded-xl mb-3 mx-auto">
+              <Target className="w-6 h-6 text-green-400" />
+            </div>
+            <div className="text-xl font-bold text-white mb-1">
+              {summary.peak ? getEmotionDefinition(summary.peak).label : 'None'}
+            </div>
+            <div className="text-sm text-slate-300">{summary.peakLabel}</div>
+            <div className="text-sm text-slate-400">{summary.peakDetail}</div>
           </div>
-        </div>
+        ) : (
+          <div className="text-center text-sm text-slate-400 py-4">Loading {WINDOW_LABELS[timeWindow].toLowerCase()}...</div>
+        )}
 
-        {/* Confidence Average */}
-        <div>
-          <div className="flex justify-between items-center mb-2">
-            <span className="text-sm text-slate-300">Average Confidence</span>
-            <span className="text-sm text-white font-medium">
-              {(stats.confidenceAverage * 100).toFixed(1)}%
+        {/* Emotion Changes */}
+        {stats.transitionCount !== undefined && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-300 flex items-center gap-2">
+              <Shuffle className="w-4 h-4" />
+              Emotion Changes
             </span>
+            <span className="text-sm text-white font-medium">{stats.transitionCount}</span>
           </div>
-          <div className="w-full bg-white/20 rounded-full h-2">
-            <div
-              className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${stats.confidenceAverage * 100}%` }}
-            />
+        )}
+
+        {/* Active Connections */}
+        {stats.activeConnections !== undefined && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-300 flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              Active Connections
+            </span>
+            <span className="text-sm text-white font-medium">{stats.activeConnections}</span>
           </div>
-        </div>
+        )}
 
-        {/* Emotion Distribution */}
-        <div>
-          <h4 className="text-sm font-medium text-white mb-3">Emotion Distribution</h4>
-          <div className="space-y-2">
-            {Object.entries(stats.emotionDistribution).map(([emotion, count]) => {
-              const total = Object.values(stats.emotionDistribution).reduce((a, b) => a + b, 0);
-              const percentage = total > 0 ? (count / total) * 100 : 0;
-              
-              return (
-                <div key={emotion} className="flex items-center gap-3">
-                  <div className="text-lg">
-                    {emotion === 'happy' && '😊'}
-                    {emotion === 'sad' && '😢'}
-                    {emotion === 'angry' && '😠'}
-                    {emotion === 'surprised' && '😲'}
-                    {emotion === 'neutral' && '😐'}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex justify-between text-sm mb-1">
-                      <span className="text-white capitalize">{emotion}</span>
-                      <span className="text-slate-300">{count}</span>
-                    </div>
-                    <div className="w-full bg-white/20 rounded-full h-1">
-                      <div
-                        className="h-1 rounded-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all duration-300"
-                        style={{ width: `${percentage}%` }}
-                      />
+        {summary && (
+          <>
+            {/* Confidence Average */}
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm text-slate-300">Average Confidence</span>
+                <span className="text-sm text-white font-medium">
+                  {(summary.confidence * 100).toFixed(1)}%
+                  {summary.confidenceSpread !== null && (
+                    <span className="text-slate-400 font-normal"> ± {(summary.confidenceSpread * 100).toFixed(1)}</span>
+                  )}
+                </span>
+              </div>
+              <div className="w-full bg-white/20 rounded-full h-2">
+                <div
+                  className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${summary.confidence * 100}%` }}
+                />
+              </div>
+            </div>
+
+            {/* Emotion Distribution */}
+            <div>
+              <h4 className="text-sm font-medium text-white mb-3">{summary.distributionLabel}</h4>
+              <div className="space-y-2">
+                {EMOTIONS.map(emotion => {
+                  const { label, emoji } = getEmotionDefinition(emotion);
+                  const value = summary.distribution[emotion] ?? 0;
+                  const total = Object.values(summary.distribution).reduce((a, b) => a + b, 0);
+                  const percentage = total > 0 ? (value / total) * 100 : 0;
+
+                  return (
+                    <div key={emotion} className="flex items-center gap-3">
+                      <div className="text-lg">
+                        {emoji}
+                      </div>
+                      <div className="flex-1">
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="text-white">{label}</span>
+                          <span className="text-slate-300">{summary.formatValue(value)}</span>
+                        </div>
+                        <div className="w-full bg-white/20 rounded-full h-1">
+                          <div
+                            className="h-1 rounded-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all duration-300"
+                            style={{ width: `${percentage}%` }}
+                          />
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        </div>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
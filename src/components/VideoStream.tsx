@@ -1,184 +1,443 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import Webcam from 'react-webcam';
-import * as tf from '@tensorflow/tfjs';
-import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection';
-import { EmotionData } from '../types/emotion';
-import { AlertCircle, Camera } from 'lucide-react';
+import { LabeledSample } from '../types/dataset';
+import { EmotionData, EmotionTransition, FaceLandmarks } from '../types/emotion';
+import { DEFAULT_CLASSIFIER_ID, listClassifiers } from '../utils/classifierRegistry';
+import { FaceFeatures } from '../utils/emotionClassifier';
+import { DetectedFace, FaceResult, keypointBounds } from '../utils/emotionPipeline';
+import { FaceAnalyzer, initFaceAnalyzer } from '../utils/faceAnalyzer';
+import { DEFAULT_OVERLAY_SETTINGS, OverlaySettings, OverlayViewport, drawOverlay } from '../utils/overlayRenderer';
+import { DEFAULT_SMOOTHING, SmoothingConfig } from '../utils/emotionSmoothing';
+import { BoundingBox } from '../utils/faceTracker';
+import { DEFAULT_TARGET_FPS, createFrameScheduler, createPerformanceMonitor } from '../utils/frameScheduler';
+import {
+  InputSource,
+  MediaFrame,
+  WEBCAM_SOURCE,
+  isFileSource,
+  readImageFrames,
+  readVideoFrames,
+} from '../utils/inputSource';
+import { AlertCircle, Camera, FileVideo } from 'lucide-react';
+import DiagnosticsOverlay, { Diagnostics } from './DiagnosticsOverlay';
+import { EMOTIONS, getEmotionDefinition } from '../../shared/emotions';
 
 interface VideoStreamProps {
   isDetecting: boolean;
   onEmotionDetected: (emotion: EmotionData) => void;
   currentEmotion: EmotionData | null;
+  onStreamReady?: (stream: MediaStream) => void;
+  smoothing?: SmoothingConfig;
+  onEmotionTransition?: (transition: EmotionTransition) => void;
+  // Number of faces found in each analyzed frame, including none
+  onFacesCounted?: (count: number, timestamp: number) => void;
+  // Maximum number of faces detected and tracked at once
+  maxFaces?: number;
+  // Frames come from the camera unless a video file or image sequence is given
+  source?: InputSource;
+  // Called once a file source has been analyzed to the end
+  onAnalysisComplete?: () => void;
+  // While on, keys 1-5 label the current frame's face with an emotion
+  captureMode?: boolean;
+  onSampleCaptured?: (sample: LabeledSample) => void;
+  // The user's calibrated neutral face; population averages when omitted
+  baseline?: FaceFeatures;
+  // While on, camera frames go to onCalibrationFrame instead of the classifier
+  calibrating?: boolean;
+  onCalibrationFrame?: (keypoints: FaceLandmarks[]) => void;
+  // Registered classifier backend to score faces with
+  classifierId?: string;
+  // Upper bound on camera inferences per second; lowered automatically when inference is slow
+  targetFps?: number;
+  // Show inference timing, frame rate and TF.js memory over the video
+  showDiagnostics?: boolean;
+  // Layers drawn over faces, and whether the camera is mirrored
+  overlay?: OverlaySettings;
 }
 
+const DIAGNOSTICS_REFRESH_MS = 500;
+
+// Capture hotkeys follow the registry's emotion order: 1 = happy ... 5 = neutral
+const CAPTURE_KEYS = Object.fromEntries(EMOTIONS.map((emotion, index) => [String(index + 1), emotion]));
+const CAPTURE_FLASH_MS = 800;
+
+const boxArea = (box: BoundingBox) => (box.xMax - box.xMin) * (box.yMax - box.yMin);
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+
 const VideoStream: React.FC<VideoStreamProps> = ({ 
   isDetecting, 
   onEmotionDetected, 
-  currentEmotion 
+  currentEmotion,
+  onStreamReady,
+  smoothing = DEFAULT_SMOOTHING.ema,
+  onEmotionTransition,
+  onFacesCounted,
+  maxFaces = 4,
+  source = WEBCAM_SOURCE,
+  onAnalysisComplete,
+  captureMode = false,
+  onSampleCaptured,
+  baseline,
+  calibrating = false,
+  onCalibrationFrame,
+  classifierId = DEFAULT_CLASSIFIER_ID,
+  targetFps = DEFAULT_TARGET_FPS,
+  showDiagnostics = false,
+  overlay = DEFAULT_OVERLAY_SETTINGS
 }) => {
   const webcamRef = useRef<Webcam>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [detector, setDetector] = useState<faceLandmarksDetection.FaceLandmarksDetector | null>(null);
+  // Face detection and classification, in a worker where supported
+  const [analyzer, setAnalyzer] = useState<FaceAnalyzer | null>(null);
   const [isModelLoading, setIsModelLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  const fileVideoRef = useRef<HTMLVideoElement>(null);
+  const isFile = isFileSource(source);
+  const videoUrl = useMemo(
+    () => (source.kind === 'video' ? URL.createObjectURL(source.file) : null),
+    [source]
+  );
+  // Shared by the camera scheduler and file analysis
+  const [monitor] = useState(createPerformanceMonitor);
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  // Whether the analyzer's classifier and pipeline match the current props
+  const [isConfigured, setIsConfigured] = useState(false);
+  const [classifierError, setClassifierError] = useState<string | null>(null);
+  // Faces of the most recently analyzed frame, for capture hotkeys
+  const lastFrameRef = useRef<{ timestamp: number; faces: FaceResult[] } | null>(null);
+  const onSampleCapturedRef = useRef(onSampleCaptured);
+  onSampleCapturedRef.current = onSampleCaptured;
+  // Settles once the last stopped run's inference has, so the next never overlaps it
+  const inferenceRef = useRef<Promise<void>>(Promise.resolve());
+  const [captureFlash, setCaptureFlash] = useState<LabeledSample | null>(null);
 
-  // Initialize TensorFlow.js and face landmarks detection
+  // Load the face landmarks model and the TF.js runtime
   useEffect(() => {
-    const initializeModel = async () => {
-      try {
-        setIsModelLoading(true);
-        setError(null);
+    let cancelled = false;
+    let instance: FaceAnalyzer | null = null;
+    setIsModelLoading(true);
+    setError(null);
 
-        // Initialize TensorFlow.js
-        await tf.ready();
-        
-        // Load face landmarks detection model
-        const model = faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh;
-        const detectorConfig = {
-          runtime: 'tfjs' as const,
-          maxFaces: 1,
-          refineLandmarks: true,
-        };
-        
-        const faceDetector = await faceLandmarksDetection.createDetector(model, detectorConfig);
-        setDetector(faceDetector);
-        
-        console.log('Face detection model loaded successfully');
-      } catch (err) {
+    initFaceAnalyzer(maxFaces)
+      .then((loaded) => {
+        instance = loaded;
+        if (cancelled) {
+          loaded.dispose();
+          return;
+        }
+        setAnalyzer(loaded);
+        console.log(`Face detection model loaded successfully (${loaded.thread} thread)`);
+      })
+      .catch((err) => {
         console.error('Error loading face detection model:', err);
-        setError('Failed to load emotion detection model. Please refresh the page.');
-      } finally {
-        setIsModelLoading(false);
-      }
+        if (!cancelled) setError('Failed to load emotion detection model. Please refresh the page.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsModelLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      instance?.dispose();
+      setAnalyzer(null);
     };
+  }, [maxFaces]);
 
-    initializeModel();
-  }, []);
+  // Load the selected classifier and rebuild the pipeline when the classifier,
+  // smoothing method or baseline changes
+  useEffect(() => {
+    if (!analyzer) return;
+    let cancelled = false;
+    setIsConfigured(false);
+    setClassifierError(null);
+
+    analyzer.configure({ classifierId, smoothing, baseline })
+      .then(() => {
+        if (!cancelled) setIsConfigured(true);
+      })
+      .catch((err) => {
+        console.error(`Error loading classifier ${classifierId}:`, err);
+        const name = listClassifiers().find(({ id }) => id === classifierId)?.name ?? classifierId;
+        if (!cancelled) setClassifierError(`Failed to load the ${name} classifier.`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analyzer, classifierId, smoothing, baseline]);
+
+  // Draw the classified faces and report their emotions
+  const showResults = (
+    ctx: CanvasRenderingContext2D,
+    results: FaceResult[],
+    timestamp: number,
+    viewport: OverlayViewport
+  ) => {
+    lastFrameRef.current = { timestamp, faces: results };
+    drawOverlay(ctx, results, viewport, overlay);
+    onFacesCounted?.(results.length, timestamp);
+    results.forEach(({ emotion, transition }) => {
+      if (!emotion) return;
+      onEmotionDetected(emotion);
+      if (transition) {
+        onEmotionTransition?.(transition);
+      }
+    });
+  };
+
+  // Hand the largest face to the calibration recorder
+  const calibrateFaces = (ctx: CanvasRenderingContext2D, faces: DetectedFace[], viewport: OverlayViewport) => {
+    if (faces.length === 0) return;
+    const withBox = faces.map(face => ({ keypoints: face.keypoints, box: face.box ?? keypointBounds(face.keypoints) }));
+    const face = withBox.reduce((largest, candidate) => (boxArea(candidate.box) > boxArea(largest.box) ? candidate : largest));
+    drawOverlay(ctx, [face], viewport, overlay);
+    onCalibrationFrame?.(face.keypoints);
+  };
 
   // Emotion detection logic
-  const detectEmotion = async () => {
-    if (!detector || !webcamRef.current || !canvasRef.current) return;
+  // Resolves to whether a frame was analyzed, for the scheduler's stats
+  const detectEmotion = async (signal: AbortSignal) => {
+    if (!analyzer || !webcamRef.current || !canvasRef.current) return false;
 
     const video = webcamRef.current.video;
     const canvas = canvasRef.current;
     
-    if (!video || video.readyState !== 4) return;
+    if (!video || video.readyState !== 4) return false;
 
     const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set canvas dimensions to match video
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+    if (!ctx) return false;
 
     try {
-      // Detect faces
-      const faces = await detector.estimateFaces(video);
-      
-      // Clear canvas
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      if (faces.length > 0) {
-        const face = faces[0];
-        
-        // Simple emotion classification based on face landmarks
-        // In a production app, you'd use a trained emotion classification model
-        const emotion = classifyEmotion(face.keypoints);
-        
-        // Draw face landmarks and emotion
-        drawFaceLandmarks(ctx, face.keypoints);
-        drawEmotionOverlay(ctx, emotion, canvas.width, canvas.height);
-        
-        onEmotionDetected(emotion);
+      // Detect faces, and classify them unless calibrating
+      const timestamp = Date.now();
+      const { faces, results } = await analyzer.analyze(video, { timestamp, classify: !calibrating });
+      // Stopped while the frame was analyzed: nothing more may be shown or reported
+      if (signal.aborted) return true;
+
+      // The canvas covers the displayed video at device resolution, so the
+      // overlay stays sharp and aligned however the video is scaled; resizing also clears it
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = Math.round(canvas.clientWidth * pixelRatio);
+      canvas.height = Math.round(canvas.clientHeight * pixelRatio);
+      const viewport: OverlayViewport = {
+        frameWidth: video.videoWidth,
+        frameHeight: video.videoHeight,
+        canvasWidth: canvas.width,
+        canvasHeight: canvas.height,
+        pixelRatio,
+        mirrored: overlay.mirrored,
+      };
+
+      if (calibrating) {
+        calibrateFaces(ctx, faces, viewport);
+      } else {
+        showResults(ctx, results, timestamp, viewport);
       }
+      return true;
     } catch (err) {
       console.error('Error during emotion detection:', err);
+      return false;
     }
   };
 
-  // Simple emotion classification (placeholder - in production use a trained model)
-  const classifyEmotion = (keypoints: any[]): EmotionData => {
-    // This is a simplified emotion classification
-    // In a real application, you would use a trained CNN model
-    const emotions = ['happy', 'sad', 'angry', 'surprised', 'neutral'] as const;
-    const randomEmotion = emotions[Math.floor(Math.random() * emotions.length)];
-    const confidence = 0.6 + Math.random() * 0.4; // Random confidence between 0.6-1.0
-    
-    return {
-      emotion: randomEmotion,
-      confidence,
-      timestamp: Date.now(),
-    };
-  };
+  // The scheduler calls through this ref so it always runs the latest render's closure
+  const detectEmotionRef = useRef(detectEmotion);
+  detectEmotionRef.current = detectEmotion;
 
-  // Draw face landmarks on canvas
-  const drawFaceLandmarks = (ctx: CanvasRenderingContext2D, keypoints: any[]) => {
-    ctx.fillStyle = '#00FF00';
-    ctx.strokeStyle = '#00FF00';
-    ctx.lineWidth = 1;
-    
-    // Draw key facial points
-    keypoints.slice(0, 50).forEach((point, index) => {
-      if (index % 5 === 0) { // Draw every 5th point to avoid clutter
-        ctx.beginPath();
-        ctx.arc(point.x, point.y, 2, 0, 2 * Math.PI);
-        ctx.fill();
-      }
-    });
-  };
+  // File analysis outlives renders, so each frame is shown with the latest overlay settings and callbacks
+  const showResultsRef = useRef(showResults);
+  showResultsRef.current = showResults;
 
-  // Draw emotion overlay
-  const drawEmotionOverlay = (
-    ctx: CanvasRenderingContext2D, 
-    emotion: EmotionData, 
-    width: number, 
-    height: number
-  ) => {
-    // Background for emotion text
-    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-    ctx.fillRect(10, 10, 300, 80);
-    
-    // Emotion text
-    ctx.fillStyle = '#FFFFFF';
-    ctx.font = 'bold 24px Arial';
-    ctx.fillText(`Emotion: ${emotion.emotion}`, 20, 40);
-    
-    ctx.font = '18px Arial';
-    ctx.fillText(`Confidence: ${(emotion.confidence * 100).toFixed(1)}%`, 20, 65);
-    
-    // Confidence bar
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
-    ctx.fillRect(20, 75, 200, 10);
-    
-    ctx.fillStyle = '#00FF00';
-    ctx.fillRect(20, 75, 200 * emotion.confidence, 10);
+  // Analyze a file source frame by frame, as fast as the detector allows
+  const analyzeFile = async (signal: AbortSignal) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!analyzer || !canvas || !ctx) return;
+
+    // Timestamps are media time from the start of the analysis
+    const options = { originMs: Date.now(), signal };
+    let frames: AsyncGenerator<MediaFrame>;
+    if (source.kind === 'video' && fileVideoRef.current) {
+      frames = readVideoFrames(fileVideoRef.current, options);
+    } else if (source.kind === 'images') {
+      frames = readImageFrames(source.files, options);
+    } else {
+      return;
+    }
+
+    setAnalysisProgress(0);
+    for await (const frame of frames) {
+      if (signal.aborted) return;
+
+      const startedAt = performance.now();
+      const { results } = await analyzer.analyze(frame.image, { timestamp: frame.timestamp, classify: true });
+      if (signal.aborted) return;
+
+      canvas.width = frame.width;
+      canvas.height = frame.height;
+      // The canvas shows the frame itself, with the overlays on top; files are never mirrored
+      ctx.drawImage(frame.image, 0, 0, frame.width, frame.height);
+      showResultsRef.current(ctx, results, frame.timestamp, {
+        frameWidth: frame.width,
+        frameHeight: frame.height,
+        canvasWidth: frame.width,
+        canvasHeight: frame.height,
+        // The canvas is scaled to the panel's width by CSS
+        pixelRatio: canvas.clientWidth > 0 ? frame.width / canvas.clientWidth : 1,
+        mirrored: false,
+      });
+
+      const endedAt = performance.now();
+      monitor.recordInference(endedAt - startedAt, endedAt);
+      setAnalysisProgress(frame.progress);
+    }
+
+    if (!signal.aborted) {
+      onAnalysisComplete?.();
+    }
   };
 
+  const analyzeFileRef = useRef(analyzeFile);
+  analyzeFileRef.current = analyzeFile;
+
   // Start/stop detection
   useEffect(() => {
-    if (isDetecting && detector) {
-      detectionIntervalRef.current = setInterval(detectEmotion, 100); // 10 FPS
-    } else {
-      if (detectionIntervalRef.current) {
-        clearInterval(detectionIntervalRef.current);
-        detectionIntervalRef.current = null;
-      }
-      // Clear canvas when not detecting
-      if (canvasRef.current) {
-        const ctx = canvasRef.current.getContext('2d');
-        if (ctx) {
-          ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-        }
+    if (isDetecting && analyzer && isConfigured && isFile) {
+      monitor.reset();
+      const controller = new AbortController();
+      const analysis = inferenceRef.current
+        .then(() => {
+          if (!controller.signal.aborted) return analyzeFileRef.current(controller.signal);
+        })
+        .catch((err) => {
+          console.error('Error during file analysis:', err);
+          setError('Failed to analyze the selected file.');
+        });
+      return () => {
+        controller.abort();
+        inferenceRef.current = analysis;
+      };
+    }
+
+    // Calibration only needs the face mesh, detection also the classifier
+    if (analyzer && (calibrating || (isDetecting && isConfigured))) {
+      monitor.reset();
+      const scheduler = createFrameScheduler({
+        task: (signal) => detectEmotionRef.current(signal),
+        targetFps,
+        monitor,
+      });
+      const previous = inferenceRef.current;
+      let stopped = false;
+      previous.then(() => {
+        if (!stopped) scheduler.start();
+      });
+      return () => {
+        stopped = true;
+        inferenceRef.current = Promise.all([previous, scheduler.stop()]).then(() => undefined);
+      };
+    }
+
+    // Start the next run without history or face ids from this one
+    analyzer?.reset();
+    lastFrameRef.current = null;
+    // Clear canvas when not detecting; an analyzed file keeps its last frame
+    if (canvasRef.current && !isFile) {
+      const ctx = canvasRef.current.getContext('2d');
+      if (ctx) {
+        ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
       }
     }
+  }, [isDetecting, calibrating, analyzer, isConfigured, source, isFile, targetFps, monitor]);
 
-    return () => {
-      if (detectionIntervalRef.current) {
-        clearInterval(detectionIntervalRef.current);
+  // Sample the scheduler and the analyzer's TF.js memory for the diagnostics overlay
+  useEffect(() => {
+    if (!showDiagnostics || !analyzer) {
+      setDiagnostics(null);
+      return;
+    }
+
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const engine = await analyzer.stats();
+        if (cancelled) return;
+        setDiagnostics({
+          ...monitor.stats(),
+          ...engine,
+          // Files are analyzed as fast as possible rather than at a target rate
+          targetFps: isFile ? null : targetFps,
+        });
+      } catch (err) {
+        console.error('Error reading analyzer stats:', err);
       }
     };
-  }, [isDetecting, detector]);
+    refresh();
+    const interval = setInterval(refresh, DIAGNOSTICS_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [showDiagnostics, analyzer, monitor, targetFps, isFile]);
+
+  // Label the largest face in the latest frame when a capture hotkey is pressed
+  useEffect(() => {
+    if (!captureMode) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const emotion = CAPTURE_KEYS[event.key];
+      if (!emotion || event.repeat || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+
+      const frame = lastFrameRef.current;
+      if (!frame || frame.faces.length === 0) return;
+      // With several people in view, the one closest to the camera is the one being labeled
+      const face = frame.faces.reduce((largest, candidate) =>
+        boxArea(candidate.box) > boxArea(largest.box) ? candidate : largest
+      );
+
+      event.preventDefault();
+      const sample: LabeledSample = {
+        id: `${frame.timestamp}`,
+        timestamp: frame.timestamp,
+        emotion,
+        keypoints: face.keypoints,
+        predicted: face.emotion?.emotion ?? null,
+      };
+      onSampleCapturedRef.current?.(sample);
+      setCaptureFlash(sample);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [captureMode]);
+
+  // Hide the capture confirmation after a moment
+  useEffect(() => {
+    if (!captureFlash) return;
+    const timeout = setTimeout(() => setCaptureFlash(null), CAPTURE_FLASH_MS);
+    return () => clearTimeout(timeout);
+  }, [captureFlash]);
+
+  // A new source starts without the previous file's frame or progress
+  useEffect(() => {
+    setAnalysisProgress(null);
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  }, [source]);
+
+  // Release the object URL of a previous video file
+  useEffect(() => {
+    return () => {
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+    };
+  }, [videoUrl]);
+
+  const isClassifierLoading = analyzer !== null && !isConfigured && !classifierError;
 
   if (error) {
     return (
@@ -197,46 +456,77 @@ const VideoStream: React.FC<VideoStreamProps> = ({
 
   return (
     <div className="relative">
-      {isModelLoading && (
+      {(isModelLoading || isClassifierLoading) && (
         <div className="absolute inset-0 bg-black/50 flex items-center justify-center z-10 rounded-xl">
           <div className="text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto mb-4"></div>
-            <p className="text-white">Loading emotion detection model...</p>
+            <p className="text-white">
+              {isModelLoading ? 'Loading emotion detection model...' : 'Loading emotion classifier...'}
+            </p>
           </div>
         </div>
       )}
+
+      {classifierError && (
+        <div className="mb-3 px-4 py-2 rounded-lg bg-red-500/20 border border-red-500/30 text-red-300 text-sm flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {classifierError} Choose another classifier to continue.
+        </div>
+      )}
       
       <div className="relative rounded-xl overflow-hidden bg-black">
+        {/* The camera stays on while analyzing a file so an ongoing call keeps its video */}
         <Webcam
           ref={webcamRef}
           audio={false}
           screenshotFormat="image/jpeg"
-          className="w-full h-auto"
+          onUserMedia={onStreamReady}
+          mirrored={overlay.mirrored}
+          className={isFile ? 'hidden' : 'w-full h-auto'}
           videoConstraints={{
             width: 640,
             height: 480,
             facingMode: 'user',
           }}
         />
+
+        {/* Decoded off screen; its frames are drawn onto the canvas */}
+        {videoUrl && (
+          <video ref={fileVideoRef} src={videoUrl} muted playsInline preload="auto" className="hidden" />
+        )}
         
         <canvas
           ref={canvasRef}
-          className="absolute top-0 left-0 w-full h-full pointer-events-none"
+          className={isFile
+            ? 'w-full h-auto min-h-[240px]'
+            : 'absolute top-0 left-0 w-full h-full pointer-events-none'}
         />
+
+        {/* File analysis progress */}
+        {isFile && analysisProgress !== null && (
+          <div className="absolute bottom-0 left-0 right-0 bg-black/70 px-4 py-2">
+            <div className="flex justify-between text-xs text-slate-300 mb-1">
+              <span>{isDetecting ? 'Analyzing...' : analysisProgress >= 1 ? 'Analysis complete' : 'Analysis stopped'}</span>
+              <span>{(analysisProgress * 100).toFixed(0)}%</span>
+            </div>
+            <div className="w-full bg-white/20 rounded-full h-1">
+              <div
+                className="h-1 rounded-full bg-gradient-to-r from-blue-500 to-purple-600"
+                style={{ width: `${analysisProgress * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
         
         {/* Current emotion indicator */}
         {currentEmotion && isDetecting && (
           <div className="absolute top-4 right-4 bg-black/70 text-white px-4 py-2 rounded-lg">
             <div className="flex items-center gap-2">
               <div className="text-2xl">
-                {currentEmotion.emotion === 'happy' && '😊'}
-                {currentEmotion.emotion === 'sad' && '😢'}
-                {currentEmotion.emotion === 'angry' && '😠'}
-                {currentEmotion.emotion === 'surprised' && '😲'}
-                {currentEmotion.emotion === 'neutral' && '😐'}
+                {getEmotionDefinition(currentEmotion.emotion).emoji}
               </div>
               <div>
-                <div className="font-semibold capitalize">{currentEmotion.emotion}</div>
+                <div className="font-semibold">{getEmotionDefinition(currentEmotion.emotion).label}</div>
                 <div className="text-sm text-gray-300">
                   {(currentEmotion.confidence * 100).toFixed(1)}%
                 </div>
@@ -245,11 +535,42 @@ const VideoStream: React.FC<VideoStreamProps> = ({
           </div>
         )}
         
-        {!isDetecting && (
+        {/* Capture mode hint and confirmation */}
+        {captureMode && isDetecting && (
+          <div className="absolute top-4 left-4 bg-black/70 text-white px-3 py-2 rounded-lg text-sm">
+            {captureFlash ? (
+              <span className="font-semibold">Captured: {getEmotionDefinition(captureFlash.emotion).label}</span>
+            ) : (
+              <span className="text-slate-300">
+                Press {EMOTIONS.map((emotion, index) => `${index + 1} ${getEmotionDefinition(emotion).label}`).join(', ')}
+              </span>
+            )}
+          </div>
+        )}
+
+        {diagnostics && (
+          // Above the progress bar while analyzing a file
+          <DiagnosticsOverlay diagnostics={diagnostics} className={isFile ? 'bottom-14 left-4' : 'bottom-4 left-4'} />
+        )}
+
+        {/* Calibration prompt */}
+        {calibrating && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black/70 text-white px-4 py-2 rounded-lg text-sm text-center">
+            Look at the camera with a relaxed, neutral expression
+          </div>
+        )}
+
+        {!isDetecting && !calibrating && (!isFile || analysisProgress === null) && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/50">
             <div className="text-center text-white">
-              <Camera className="w-16 h-16 mx-auto mb-4 opacity-50" />
-              <p className="text-lg">Click "Start Detection" to begin</p>
+              {isFile ? (
+                <FileVideo className="w-16 h-16 mx-auto mb-4 opacity-50" />
+              ) : (
+                <Camera className="w-16 h-16 mx-auto mb-4 opacity-50" />
+              )}
+              <p className="text-lg">
+                {isFile ? 'Click "Start Detection" to analyze the file' : 'Click "Start Detection" to begin'}
+              </p>
             </div>
           </div>
         )}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertRule, AlertRuleInput } from '../types/alerts';
+import { createAlertRule, deleteAlertRule, fetchAlertRules, updateAlertRule } from '../utils/api';
+
+const toInput = ({ name, type, emotions, minConfidence, duration, enabled }: AlertRule): AlertRuleInput => ({
+  name,
+  type,
+  emotions,
+  minConfidence,
+  duration,
+  enabled,
+});
+
+/**
+ * Alert rules stored on the server. Every change is sent to the server and
+ * the list reloaded, so it always shows what the server evaluates.
+ */
+export const useAlertRules = () => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Run a request, then reload the rules; errors are kept for display
+  const run = useCallback(async (request: () => Promise<unknown>) => {
+    try {
+      await request();
+      setRules(await fetchAlertRules());
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error('Alert rule request failed:', err);
+      setError(err instanceof Error ? err.message : 'Alert rules are unavailable.');
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    run(async () => {});
+  }, [run]);
+
+  const addRule = useCallback((rule: AlertRuleInput) => run(() => createAlertRule(rule)), [run]);
+
+  const setRuleEnabled = useCallback(
+    (rule: AlertRule, enabled: boolean) => run(() => updateAlertRule(rule.id, { ...toInput(rule), enabled })),
+    [run]
+  );
+
+  const removeRule = useCallback((id: string) => run(() => deleteAlertRule(id)), [run]);
+
+  return { rules, error, addRule, setRuleEnabled, removeRule };
+};
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertEvent } from '../types/alerts';
+import { fetchAlerts } from '../utils/api';
+import { parseServerMessage } from '../../shared/protocol';
+
+// Alerts kept in the list
+const MAX_ALERTS = 50;
+
+// Newest first, without duplicates
+const mergeAlerts = (current: AlertEvent[], added: AlertEvent[]) => {
+  const byId = new Map([...current, ...added].map(alert => [alert.id, alert]));
+  return [...byId.values()].sort((a, b) => b.receivedAt - a.receivedAt).slice(0, MAX_ALERTS);
+};
+
+/**
+ * Alerts for this session and the others in its room. Stored alerts of the
+ * session are loaded when it starts; new ones arrive over the socket and are
+ * also queued as toasts until dismissed.
+ */
+export const useAlerts = (socket: WebSocket | null, sessionId: string | null) => {
+  const [alerts, setAlerts] = useState<AlertEvent[]>([]);
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    fetchAlerts(sessionId)
+      .then(loaded => {
+        if (!cancelled) setAlerts(prev => mergeAlerts(prev, loaded));
+      })
+      .catch(error => console.error('Failed to fetch alerts:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const onMessage = (event: MessageEvent) => {
+      const result = parseServerMessage(event.data);
+      if (!result.ok || result.message.type !== 'alert') return;
+      const { alert } = result.message;
+      setAlerts(prev => mergeAlerts(prev, [alert]));
+      setToasts(prev => [...prev, alert]);
+    };
+
+    socket.addEventListener('message', onMessage);
+    return () => socket.removeEventListener('message', onMessage);
+  }, [socket]);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts(prev => prev.filter(alert => alert.id !== id));
+  }, []);
+
+  const clearAlerts = useCallback(() => setAlerts([]), []);
+
+  return { alerts, toasts, dismissToast, clearAlerts };
+};
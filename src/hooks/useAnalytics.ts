@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { Analytics, AnalyticsQuery } from '../types/analytics';
+import { fetchAnalytics } from '../utils/api';
+
+const REFRESH_INTERVAL_MS = 5000;
+
+/**
+ * Analytics for a time window from GET /api/analytics, refreshed while the
+ * window is shown since preset windows end at the current time. Pass null to
+ * stop fetching.
+ */
+export const useAnalytics = (query: AnalyticsQuery | null) => {
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Queries are compared by value so callers can pass object literals
+  const key = query && JSON.stringify(query);
+
+  useEffect(() => {
+    setAnalytics(null);
+    setError(null);
+    if (!key) return;
+
+    const parsed: AnalyticsQuery = JSON.parse(key);
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const loaded = await fetchAnalytics(parsed);
+        if (!cancelled) {
+          setAnalytics(loaded);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Failed to fetch analytics:', err);
+        if (!cancelled) setError('Analytics are unavailable.');
+      }
+    };
+
+    load();
+    // A custom window is fixed, so it only needs loading once
+    const interval = parsed.window === 'custom' ? undefined : setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [key]);
+
+  return { analytics, error };
+};
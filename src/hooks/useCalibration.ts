@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FaceLandmarks } from '../types/emotion';
+import {
+  CALIBRATION_DURATION_MS,
+  CalibrationProfile,
+  CalibrationRecorder,
+  clearCalibration,
+  createCalibrationRecorder,
+  loadCalibration,
+  saveCalibration,
+} from '../utils/calibration';
+
+/**
+ * Guided neutral-face calibration. While calibrating, frames passed to
+ * `addFrame` are recorded for CALIBRATION_DURATION_MS, counted from the first
+ * frame with a usable face; the resulting profile is kept in localStorage.
+ */
+export const useCalibration = () => {
+  const [profile, setProfile] = useState<CalibrationProfile | null>(loadCalibration);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<CalibrationRecorder | null>(null);
+  const startedAtRef = useRef<number | null>(null);
+
+  const start = useCallback(() => {
+    recorderRef.current = createCalibrationRecorder();
+    startedAtRef.current = null;
+    setError(null);
+    setProgress(0);
+    setIsCalibrating(true);
+  }, []);
+
+  const cancel = useCallback(() => {
+    recorderRef.current = null;
+    setIsCalibrating(false);
+  }, []);
+
+  const addFrame = useCallback((keypoints: FaceLandmarks[]) => {
+    if (recorderRef.current?.add(keypoints) && startedAtRef.current === null) {
+      startedAtRef.current = Date.now();
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    clearCalibration();
+    setProfile(null);
+  }, []);
+
+  // Advance the progress bar and finish once the recording time is up
+  useEffect(() => {
+    if (!isCalibrating) return;
+
+    const timer = setInterval(() => {
+      const recorder = recorderRef.current;
+      const startedAt = startedAtRef.current;
+      if (!recorder || startedAt === null) return;
+
+      const elapsed = Date.now() - startedAt;
+      setProgress(Math.min(1, elapsed / CALIBRATION_DURATION_MS));
+      if (elapsed < CALIBRATION_DURATION_MS) return;
+
+      const result = recorder.profile();
+      if (result) {
+        saveCalibration(result);
+        setProfile(result);
+      } else {
+        setError(`Only ${recorder.sampleCount()} frames had a clear view of your face. Please try again.`);
+      }
+      recorderRef.current = null;
+      setIsCalibrating(false);
+    }, 100);
+
+    return () => clearInterval(timer);
+  }, [isCalibrating]);
+
+  return { profile, isCalibrating, progress, error, start, cancel, addFrame, reset };
+};
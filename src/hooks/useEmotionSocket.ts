@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ClientMessage,
+  PROTOCOL_VERSION,
+  parseServerMessage,
+} from '../../shared/protocol';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting';
+
+interface ReconnectOptions {
+  initialDelay?: number;
+  maxDelay?: number;
+  // Maximum number of emotion frames and transitions kept while offline; the oldest are dropped first
+  maxQueueSize?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ReconnectOptions> = {
+  initialDelay: 500,
+  maxDelay: 30000,
+  maxQueueSize: 500,
+};
+
+/**
+ * Exponential backoff with jitter: 0.5s, 1s, 2s, ... capped at maxDelay.
+ */
+const backoffDelay = (attempt: number, initialDelay: number, maxDelay: number) => {
+  const delay = Math.min(maxDelay, initialDelay * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// Messages kept while offline and delivered in order once the connection is back
+const QUEUED_TYPES: ClientMessage['type'][] = ['emotion', 'transition', 'session-end', 'hello'];
+
+/**
+ * WebSocket connection to the emotion server that performs the protocol
+ * handshake, reconnects with exponential backoff and buffers emotion frames
+ * and transitions while offline. No session is open until startSession;
+ * reconnects resume it, and endSession closes it.
+ */
+export const useEmotionSocket = (url: string, options: ReconnectOptions = {}) => {
+  const { initialDelay, maxDelay, maxQueueSize } = { ...DEFAULT_OPTIONS, ...options };
+
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [attempt, setAttempt] = useState(0);
+  const [socket, setSocket] = useState<WebSocket | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [participantId, setParticipantId] = useState<string | null>(null);
+
+  const wsRef = useRef<WebSocket | null>(null);
+  const readyRef = useRef(false);
+  const outboxRef = useRef<ClientMessage[]>([]);
+  // Session the server may still hold open for us, cleared once it confirms the end
+  const sessionIdRef = useRef<string | null>(null);
+  // Proves the session is ours when resuming it
+  const participantIdRef = useRef<string | null>(null);
+  // Set between startSession and endSession
+  const activeRef = useRef(false);
+
+  useEffect(() => {
+    let disposed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+
+    const connect = () => {
+      const ws = new WebSocket(url);
+      wsRef.current = ws;
+
+      // Resume the session queued frames belong to, open one if detecting, or just shake hands
+      ws.onopen = () => {
+        const hello: ClientMessage = { type: 'hello', protocolVersion: PROTOCOL_VERSION };
+        if (sessionIdRef.current && participantIdRef.current) {
+          hello.sessionId = sessionIdRef.current;
+          hello.participantId = participantIdRef.current;
+        } else if (!activeRef.current) {
+          hello.openSession = false;
+        }
+        ws.send(JSON.stringify(hello));
+      };
+
+      const markConnected = () => {
+        readyRef.current = true;
+        attempts = 0;
+        setSocket(ws);
+        setStatus('connected');
+        setAttempt(0);
+      };
+
+      ws.onmessage = (event) => {
+        const result = parseServerMessage(event.data);
+        if (!result.ok) {
+          console.error('Invalid message from server:', result.error.message);
+          return;
+        }
+
+        const message = result.message;
+        switch (message.type) {
+          case 'session-start': {
+            sessionIdRef.current = message.sessionId;
+            participantIdRef.current = message.participantId;
+
+            // A fresh session means the one to resume expired while offline; it stands in
+            // for both the end of that one and the next
+            let queued = outboxRef.current;
+            if (!message.resumed) {
+              queued = queued.filter(({ type }) => type !== 'session-end' && type !== 'hello');
+              // Detection stopped while offline, so the stand-in only takes the queued frames
+              if (!activeRef.current) {
+                queued.push({ type: 'session-end' });
+              }
+            }
+
+            // Deliver everything produced while offline, oldest first
+            outboxRef.current = [];
+            queued.forEach(queuedMessage => ws.send(JSON.stringify(queuedMessage)));
+
+            setSessionId(message.sessionId);
+            setParticipantId(message.participantId);
+            markConnected();
+            console.log(
+              `${message.resumed ? 'Resumed' : 'Started'} session ${message.sessionId}` +
+              (queued.length > 0 ? `, flushed ${queued.length} queued frames` : '')
+            );
+            break;
+          }
+          case 'welcome': {
+            // Detection started before the handshake finished: its hello and the frames after
+            // it go out now. Nothing queued before that hello has a session to go to
+            const queued = outboxRef.current;
+            const helloIndex = queued.findIndex(({ type }) => type === 'hello');
+            outboxRef.current = [];
+            if (activeRef.current) {
+              const next: ClientMessage[] = helloIndex >= 0
+                ? queued.slice(helloIndex)
+                : [{ type: 'hello', protocolVersion: PROTOCOL_VERSION }];
+              next.forEach(queuedMessage => ws.send(JSON.stringify(queuedMessage)));
+            }
+            setParticipantId(message.participantId);
+            markConnected();
+            console.log('Connected to emotion server');
+            break;
+          }
+          case 'session-end':
+            if (sessionIdRef.current === message.sessionId) {
+              sessionIdRef.current = null;
+            }
+            console.log(`Ended session ${message.sessionId} after ${message.duration.toFixed(1)}s`);
+            break;
+          case 'error':
+            console.error(`Server error [${message.code}]:`, message.message);
+            break;
+        }
+      };
+
+      ws.onclose = () => {
+        readyRef.current = false;
+        setSocket(null);
+        if (disposed) return;
+
+        attempts += 1;
+        setStatus('reconnecting');
+        setAttempt(attempts);
+        const delay = backoffDelay(attempts, initialDelay, maxDelay);
+        console.log(`Disconnected from emotion server, reconnecting in ${Math.round(delay)}ms (attempt ${attempts})`);
+        retryTimer = setTimeout(connect, delay);
+      };
+
+      ws.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      wsRef.current?.close();
+      wsRef.current = null;
+    };
+  }, [url, initialDelay, maxDelay]);
+
+  /**
+   * Send a message, queueing emotion frames, transitions and session changes while
+   * the connection is down. Other messages are only meaningful on a live connection
+   * and are dropped.
+   */
+  const send = useCallback((message: ClientMessage) => {
+    const ws = wsRef.current;
+    if (readyRef.current && ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+      return;
+    }
+
+    if (QUEUED_TYPES.includes(message.type)) {
+      const outbox = outboxRef.current;
+      outbox.push(message);
+      // Drop the oldest frame or transition; session changes are always kept
+      const oldest = outbox.findIndex(({ type }) => type === 'emotion' || type === 'transition');
+      if (outbox.length > maxQueueSize && oldest >= 0) {
+        outbox.splice(oldest, 1);
+      }
+    }
+  }, [maxQueueSize]);
+
+  // Close the current session, e.g. when detection stops
+  const endSession = useCallback(() => {
+    if (!activeRef.current) return;
+    activeRef.current = false;
+    send({ type: 'session-end' });
+  }, [send]);
+
+  // Open a new session, closing any still open; the id changes once the server confirms it
+  const startSession = useCallback(() => {
+    endSession();
+    activeRef.current = true;
+    send({ type: 'hello', protocolVersion: PROTOCOL_VERSION });
+  }, [send, endSession]);
+
+  return {
+    status,
+    attempt,
+    isConnected: status === 'connected',
+    socket,
+    sessionId,
+    participantId,
+    send,
+    startSession,
+    endSession,
+  };
+};
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { EmotionStats } from '../types/emotion';
+import { fetchStats } from '../utils/api';
+import { ClientMessage, StatsDelta, parseServerMessage } from '../../shared/protocol';
+
+export type StatsSource = 'push' | 'polling';
+
+const POLL_INTERVAL_MS = 5000;
+// How long a subscription may go unanswered before polling starts
+const PUSH_WAIT_MS = 3000;
+
+const sendMessage = (socket: WebSocket, message: ClientMessage) => {
+  socket.send(JSON.stringify(message));
+};
+
+// Add a pushed delta's counts to the stats and take its current values
+const applyStatsDelta = (stats: EmotionStats, delta: StatsDelta): EmotionStats => {
+  const emotionDistribution = { ...stats.emotionDistribution };
+  let added = 0;
+  (Object.keys(emotionDistribution) as (keyof typeof emotionDistribution)[]).forEach(emotion => {
+    emotionDistribution[emotion] += delta.distribution[emotion] ?? 0;
+    added += delta.distribution[emotion] ?? 0;
+  });
+
+  const [peakEmotion] = Object.entries(emotionDistribution).reduce(
+    (max, entry) => (entry[1] > max[1] ? entry : max),
+    ['neutral', 0]
+  );
+
+  return {
+    ...stats,
+    emotionDistribution,
+    peakEmotion,
+    totalEmotionsCount: (stats.totalEmotionsCount ?? 0) + added,
+    transitionCount: (stats.transitionCount ?? 0) + delta.transitions,
+    confidenceAverage: delta.confidenceAverage,
+    recentEmotionsCount: delta.recentEmotionsCount,
+    totalSessions: delta.totalSessions,
+    averageSessionDuration: delta.averageSessionDuration,
+    activeConnections: delta.activeConnections,
+  };
+};
+
+/**
+ * Server-wide stats kept current by pushes on the emotion socket. Subscribes
+ * whenever a socket is ready and applies each delta to the latest snapshot;
+ * polls GET /api/stats instead while connected to a server that does not
+ * answer the subscription.
+ */
+export const useLiveStats = (socket: WebSocket | null, isConnected: boolean) => {
+  const [stats, setStats] = useState<EmotionStats | null>(null);
+  const [source, setSource] = useState<StatsSource>('polling');
+
+  // Subscribe on every new connection; the server answers with a snapshot
+  useEffect(() => {
+    if (!socket) return;
+
+    const onMessage = (event: MessageEvent) => {
+      const result = parseServerMessage(event.data);
+      if (!result.ok) return;
+      const message = result.message;
+
+      if (message.type === 'stats-snapshot') {
+        setStats(message.stats);
+        setSource('push');
+      } else if (message.type === 'stats-push') {
+        setStats(prev => prev && applyStatsDelta(prev, message.delta));
+      }
+    };
+
+    socket.addEventListener('message', onMessage);
+    sendMessage(socket, { type: 'stats-subscribe' });
+    return () => {
+      socket.removeEventListener('message', onMessage);
+      if (socket.readyState === WebSocket.OPEN) {
+        sendMessage(socket, { type: 'stats-unsubscribe' });
+      }
+      setSource('polling');
+    };
+  }, [socket]);
+
+  // Fall back to polling when no snapshot arrives
+  useEffect(() => {
+    if (!isConnected || source === 'push') return;
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    const loadStats = async () => {
+      try {
+        const loaded = await fetchStats();
+        // Ignore a response that lands after a snapshot took over
+        if (!cancelled) setStats(loaded);
+      } catch (error) {
+        console.error('Failed to fetch stats:', error);
+      }
+    };
+
+    // Give a subscription on the socket time to be answered first
+    const timeout = setTimeout(() => {
+      loadStats();
+      interval = setInterval(loadStats, POLL_INTERVAL_MS);
+    }, PUSH_WAIT_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      clearInterval(interval);
+    };
+  }, [isConnected, source]);
+
+  return { stats, source };
+};
@@ -0,0 +1,235 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EmotionData } from '../types/emotion';
+import {
+  ClientMessage,
+  SignalPayload,
+  parseServerMessage,
+} from '../../shared/protocol';
+
+// No STUN/TURN servers: host candidates are enough for peers on the same machine or LAN
+const RTC_CONFIG: RTCConfiguration = { iceServers: [] };
+
+// Peer emotions older than this are no longer shown
+const PEER_EMOTION_TTL = 3000;
+
+interface PeerState {
+  connection: RTCPeerConnection;
+  pendingCandidates: RTCIceCandidateInit[];
+}
+
+const applyRemoteDescription = async (peer: PeerState, description: RTCSessionDescriptionInit) => {
+  await peer.connection.setRemoteDescription(description);
+  // Candidates can arrive before the description they belong to
+  for (const candidate of peer.pendingCandidates) {
+    await peer.connection.addIceCandidate(candidate);
+  }
+  peer.pendingCandidates = [];
+};
+
+/**
+ * Manage a mesh of WebRTC peer connections for one room, using the emotion
+ * WebSocket as the signaling channel for SDP offers/answers and ICE candidates.
+ */
+export const useVideoCall = (socket: WebSocket | null, localStream: MediaStream | null) => {
+  const [roomId, setRoomId] = useState<string | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<Record<string, MediaStream>>({});
+  const [peerEmotions, setPeerEmotions] = useState<Record<string, EmotionData>>({});
+  const peersRef = useRef(new Map<string, PeerState>());
+  const localStreamRef = useRef(localStream);
+  // Room to rejoin automatically after the socket reconnects
+  const rejoinRoomRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    localStreamRef.current = localStream;
+  }, [localStream]);
+
+  const send = useCallback((message: ClientMessage) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }, [socket]);
+
+  const closePeer = useCallback((peerId: string) => {
+    peersRef.current.get(peerId)?.connection.close();
+    peersRef.current.delete(peerId);
+    setRemoteStreams(prev => {
+      const next = { ...prev };
+      delete next[peerId];
+      return next;
+    });
+    setPeerEmotions(prev => {
+      const next = { ...prev };
+      delete next[peerId];
+      return next;
+    });
+  }, []);
+
+  const closeAllPeers = useCallback(() => {
+    peersRef.current.forEach(peer => peer.connection.close());
+    peersRef.current.clear();
+    setRemoteStreams({});
+    setPeerEmotions({});
+  }, []);
+
+  const createPeer = useCallback((peerId: string): PeerState => {
+    const connection = new RTCPeerConnection(RTC_CONFIG);
+    const peer: PeerState = { connection, pendingCandidates: [] };
+    peersRef.current.set(peerId, peer);
+
+    localStreamRef.current?.getTracks().forEach(track => {
+      connection.addTrack(track, localStreamRef.current!);
+    });
+
+    connection.onicecandidate = (event) => {
+      if (event.candidate) {
+        send({ type: 'signal', to: peerId, signal: { type: 'ice', candidate: event.candidate.toJSON() } });
+      }
+    };
+
+    connection.ontrack = (event) => {
+      const [stream] = event.streams;
+      if (stream) {
+        setRemoteStreams(prev => ({ ...prev, [peerId]: stream }));
+      }
+    };
+
+    connection.onconnectionstatechange = () => {
+      if (connection.connectionState === 'failed') {
+        console.warn(`Peer connection to ${peerId} failed`);
+        closePeer(peerId);
+      }
+    };
+
+    return peer;
+  }, [send, closePeer]);
+
+  const handleSignal = useCallback(async (from: string, signal: SignalPayload) => {
+    switch (signal.type) {
+      case 'offer': {
+        const peer = peersRef.current.get(from) ?? createPeer(from);
+        await applyRemoteDescription(peer, { type: 'offer', sdp: signal.sdp });
+        const answer = await peer.connection.createAnswer();
+        await peer.connection.setLocalDescription(answer);
+        send({ type: 'signal', to: from, signal: { type: 'answer', sdp: answer.sdp ?? '' } });
+        break;
+      }
+      case 'answer': {
+        const peer = peersRef.current.get(from);
+        if (peer) {
+          await applyRemoteDescription(peer, { type: 'answer', sdp: signal.sdp });
+        }
+        break;
+      }
+      case 'ice': {
+        const peer = peersRef.current.get(from);
+        if (!peer) break;
+        if (peer.connection.remoteDescription) {
+          await peer.connection.addIceCandidate(signal.candidate);
+        } else {
+          peer.pendingCandidates.push(signal.candidate);
+        }
+        break;
+      }
+    }
+  }, [createPeer, send]);
+
+  const callPeer = useCallback(async (peerId: string) => {
+    const peer = createPeer(peerId);
+    const offer = await peer.connection.createOffer();
+    await peer.connection.setLocalDescription(offer);
+    send({ type: 'signal', to: peerId, signal: { type: 'offer', sdp: offer.sdp ?? '' } });
+  }, [createPeer, send]);
+
+  // Listen for signaling messages on the shared socket
+  useEffect(() => {
+    if (!socket) return;
+
+    const onMessage = async (event: MessageEvent) => {
+      const result = parseServerMessage(event.data);
+      if (!result.ok) return;
+      const message = result.message;
+
+      try {
+        switch (message.type) {
+          case 'joined':
+            setRoomId(message.roomId);
+            // The newcomer calls everyone already in the room
+            await Promise.all(message.peers.map(callPeer));
+            break;
+          case 'peer-left':
+            closePeer(message.participantId);
+            break;
+          case 'signal':
+            await handleSignal(message.from, message.signal);
+            break;
+          case 'emotion':
+            // Stamp with local receive time so staleness doesn't depend on the peer's clock
+            setPeerEmotions(prev => ({
+              ...prev,
+              [message.participantId]: { ...message.payload, timestamp: Date.now() },
+            }));
+            break;
+        }
+      } catch (err) {
+        console.error('Error handling signaling message:', err);
+      }
+    };
+
+    const onClose = () => {
+      closeAllPeers();
+      setRoomId(null);
+    };
+
+    socket.addEventListener('message', onMessage);
+    socket.addEventListener('close', onClose);
+    return () => {
+      socket.removeEventListener('message', onMessage);
+      socket.removeEventListener('close', onClose);
+    };
+  }, [socket, callPeer, closePeer, closeAllPeers, handleSignal]);
+
+  // Drop peer emotions that stopped updating, e.g. when the peer stops detecting
+  const hasPeerEmotions = Object.keys(peerEmotions).length > 0;
+  useEffect(() => {
+    if (!hasPeerEmotions) return;
+
+    const interval = setInterval(() => {
+      const cutoff = Date.now() - PEER_EMOTION_TTL;
+      setPeerEmotions(prev => {
+        const fresh = Object.entries(prev).filter(([, emotion]) => emotion.timestamp > cutoff);
+        return fresh.length === Object.keys(prev).length ? prev : Object.fromEntries(fresh);
+      });
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [hasPeerEmotions]);
+
+  // Hang up when the component using the call unmounts
+  useEffect(() => closeAllPeers, [closeAllPeers]);
+
+  useEffect(() => {
+    if (socket && rejoinRoomRef.current) {
+      send({ type: 'join', roomId: rejoinRoomRef.current });
+    }
+  }, [socket, send]);
+
+  const joinRoom = useCallback((id: string) => {
+    closeAllPeers();
+    rejoinRoomRef.current = id;
+    send({ type: 'join', roomId: id });
+  }, [send, closeAllPeers]);
+
+  const leaveRoom = useCallback(() => {
+    rejoinRoomRef.current = null;
+    send({ type: 'leave' });
+    closeAllPeers();
+    setRoomId(null);
+  }, [send, closeAllPeers]);
+
+  return {
+    roomId,
+    remoteStreams,
+    peerEmotions,
+    joinRoom,
+    leaveRoom,
+  };
+};
@@ -0,0 +1,40 @@
+import { Emotion } from './emotion';
+
+export type AlertRuleType = 'emotion' | 'no-face';
+
+// Rule as sent to POST and PUT /api/alert-rules
+export interface AlertRuleInput {
+  name: string;
+  type: AlertRuleType;
+  // Emotions that count towards an emotion rule; empty for no-face rules
+  emotions: Emotion[];
+  minConfidence: number;
+  // How long the condition must hold, in ms
+  duration: number;
+  enabled: boolean;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  createdAt: number;
+}
+
+// A rule that fired for a session, as pushed over the socket and stored
+export interface AlertEvent {
+  id: number;
+  ruleId: string;
+  ruleName: string;
+  type: AlertRuleType;
+  sessionId: string;
+  participantId: string | null;
+  roomId: string | null;
+  // Face, emotion and confidence of the frame that completed an emotion rule
+  faceId?: number;
+  emotion?: Emotion;
+  confidence?: number;
+  // When the condition started to hold, and for how long it had when the rule fired, in ms
+  startedAt: number;
+  duration: number;
+  // When the rule fired
+  receivedAt: number;
+}
@@ -0,0 +1,45 @@
+import { Emotion } from './emotion';
+
+export type AnalyticsScope = 'global' | 'session' | 'room';
+
+export type AnalyticsWindow = '5m' | '1h' | '24h' | 'custom';
+
+export interface EmotionAnalytics {
+  frameCount: number;
+  // Frames per emotion
+  distribution: Record<Emotion, number>;
+  confidence: { mean: number; variance: number };
+  // Emotion shown longest; null without frames
+  dominantEmotion: Emotion | null;
+  // Seconds each emotion was shown
+  timeShare: Record<Emotion, number>;
+}
+
+export interface AnalyticsBucket extends EmotionAnalytics {
+  // Bucket start in ms; buckets are bucketMs long
+  start: number;
+}
+
+// Response of GET /api/analytics
+export interface Analytics extends EmotionAnalytics {
+  scope: AnalyticsScope;
+  sessionId?: string;
+  roomId?: string;
+  window: AnalyticsWindow;
+  from: number;
+  to: number;
+  bucketMs: number;
+  series: AnalyticsBucket[];
+}
+
+export interface AnalyticsQuery {
+  scope?: AnalyticsScope;
+  sessionId?: string;
+  roomId?: string;
+  window?: AnalyticsWindow;
+  // Bounds of a custom window in ms
+  from?: number;
+  to?: number;
+  // Duration such as 30s, 1m or 1h; picked by the server when omitted
+  bucket?: string;
+}
@@ -0,0 +1,36 @@
+import { ClassifierInfo, Emotion, EmotionData, FaceLandmarks } from './emotion';
+import type { FaceFeatures } from '../utils/emotionClassifier';
+import type { BoundingBox } from '../utils/faceTracker';
+
+export interface ClassifierMetadata extends ClassifierInfo {
+  name: string;
+  description: string;
+  // What the backend looks at: the face mesh alone, or pixels cut from the frame
+  input: 'landmarks' | 'image';
+  // Emotions the backend can score; the other registered ones are label-only
+  // for it and always score 0
+  emotions: readonly Emotion[];
+}
+
+export interface ClassifierInput {
+  keypoints: FaceLandmarks[];
+  box: BoundingBox;
+  timestamp: number;
+  // The frame the face was found in (video, image or canvas element, or an
+  // ImageBitmap inside a worker). Left untyped so landmark-only code can run
+  // without the DOM.
+  image?: unknown;
+  // The user's calibrated neutral face, for backends that use one
+  baseline?: FaceFeatures;
+}
+
+/**
+ * A pluggable emotion classification backend. `init` must resolve before
+ * `classify` is called; `classify` returns null for faces it cannot score.
+ */
+export interface EmotionClassifier {
+  readonly metadata: ClassifierMetadata;
+  init(): Promise<void>;
+  classify(input: ClassifierInput): EmotionData | null;
+  dispose(): void;
+}
@@ -0,0 +1,11 @@
+import { Emotion, FaceLandmarks } from './emotion';
+
+// Face mesh tagged by the user with the emotion actually shown
+export interface LabeledSample {
+  id: string;
+  timestamp: number;
+  emotion: Emotion;
+  keypoints: FaceLandmarks[];
+  // What the classifier said at capture time, for comparison during review
+  predicted: Emotion | null;
+}
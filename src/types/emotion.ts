@@ -1,21 +1,47 @@
+import type { Emotion } from '../../shared/emotions';
+
+// Labels are defined by the emotion registry in shared/emotions.js
+export type { Emotion };
+
 export interface EmotionData {
-  emotion: 'happy' | 'sad' | 'angry' | 'surprised' | 'neutral';
+  emotion: Emotion;
   confidence: number;
   timestamp: number;
+  // Full probability distribution over all emotions, when the classifier provides one
+  scores?: Record<Emotion, number>;
+  // Track id of the face this frame belongs to, stable while the face stays in view
+  faceId?: number;
+  // Backend that produced this frame
+  classifier?: ClassifierInfo;
+}
+
+export interface ClassifierInfo {
+  id: string;
+  version: string;
+}
+
+// Change of the smoothed emotion from one label to another
+export interface EmotionTransition {
+  from: Emotion;
+  to: Emotion;
+  // Timestamp of the frame that completed the change, in ms
+  at: number;
+  // How long the previous emotion was held, in ms
+  duration: number;
+  faceId?: number;
 }
 
 export interface EmotionStats {
   totalSessions: number;
   averageSessionDuration: number;
-  emotionDistribution: {
-    happy: number;
-    sad: number;
-    angry: number;
-    surprised: number;
-    neutral: number;
-  };
+  emotionDistribution: Record<Emotion, number>;
   peakEmotion: string;
   confidenceAverage: number;
+  recentEmotionsCount?: number;
+  totalEmotionsCount?: number;
+  transitionCount?: number;
+  // Open WebSocket connections to the server
+  activeConnections?: number;
 }
 
 export interface FaceLandmarks {
@@ -0,0 +1,27 @@
+import { Emotion, EmotionData, EmotionTransition } from './emotion';
+
+export interface SessionSummary {
+  id: string;
+  start: number;
+  end: number | null;
+  duration: number | null;
+}
+
+export interface SessionDetail extends SessionSummary {
+  participantId: string | null;
+  status: 'active' | 'suspended' | 'closed';
+  emotionCount: number;
+  emotionDistribution: Record<Emotion, number>;
+  peakEmotion: Emotion;
+  confidenceAverage: number;
+  transitionCount: number;
+}
+
+// Emotion frame as returned by the REST API
+export interface StoredEmotion extends EmotionData {
+  receivedAt: number;
+}
+
+export interface StoredTransition extends EmotionTransition {
+  receivedAt: number;
+}
@@ -0,0 +1,20 @@
+import { AlertEvent, AlertRuleInput } from '../types/alerts';
+import { getEmotionDefinition } from '../../shared/emotions';
+
+const formatSeconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+
+// One-line summary of a rule's condition
+export const describeRule = (rule: AlertRuleInput) => {
+  if (rule.type === 'no-face') return `No face for ${formatSeconds(rule.duration)}`;
+  const emotions = rule.emotions.map(emotion => getEmotionDefinition(emotion).label).join(' or ');
+  const confidence = rule.minConfidence > 0 ? ` at ≥ ${Math.round(rule.minConfidence * 100)}%` : '';
+  return `${emotions}${confidence} for ${formatSeconds(rule.duration)}`;
+};
+
+// What was seen when an alert fired
+export const describeAlert = (alert: AlertEvent) => {
+  if (alert.type === 'no-face') return `No face detected for ${formatSeconds(alert.duration)}`;
+  const face = alert.faceId === undefined ? 'Face' : `Face ${alert.faceId}`;
+  const emotion = alert.emotion ? getEmotionDefinition(alert.emotion).label.toLowerCase() : 'flagged';
+  return `${face} ${emotion} for ${formatSeconds(alert.duration)}`;
+};
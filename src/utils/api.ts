@@ -0,0 +1,98 @@
+import { AlertEvent, AlertRule, AlertRuleInput } from '../types/alerts';
+import { Analytics, AnalyticsQuery } from '../types/analytics';
+import { EmotionStats } from '../types/emotion';
+import { SessionDetail, SessionSummary, StoredEmotion, StoredTransition } from '../types/session';
+
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8080';
+
+const getJson = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${API_URL}${path}`);
+  if (!response.ok) {
+    throw new Error(`Request to ${path} failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+// Send a JSON body; the server's error message is used when it gives one
+const sendJson = async <T>(method: 'POST' | 'PUT' | 'DELETE', path: string, body?: unknown): Promise<T> => {
+  const response = await fetch(`${API_URL}${path}`, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error ?? `Request to ${path} failed with status ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const fetchStats = () => getJson<EmotionStats>('/api/stats');
+
+export const fetchAnalytics = (query: AnalyticsQuery) => {
+  const params = new URLSearchParams(
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+  );
+  return getJson<Analytics>(`/api/analytics?${params}`);
+};
+
+export const fetchSessions = async (limit = 50) => {
+  const data = await getJson<{ sessions: SessionSummary[] }>(`/api/sessions?limit=${limit}`);
+  // Newest first
+  return data.sessions.reverse();
+};
+
+export const fetchSession = (id: string) =>
+  getJson<SessionDetail>(`/api/sessions/${encodeURIComponent(id)}`);
+
+// Fetch a session's whole emotion timeline, following the paging cursor
+export const fetchSessionEmotions = async (id: string) => {
+  const emotions: StoredEmotion[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const query: string = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+    const page: { emotions: StoredEmotion[]; nextCursor: string | null } = await getJson(
+      `/api/sessions/${encodeURIComponent(id)}/emotions?limit=1000${query}`
+    );
+    emotions.push(...page.emotions);
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return emotions;
+};
+
+export const fetchSessionTransitions = async (id: string) => {
+  const data = await getJson<{ transitions: StoredTransition[] }>(
+    `/api/sessions/${encodeURIComponent(id)}/transitions`
+  );
+  return data.transitions;
+};
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'html';
+
+// Download link for a session export; the server sends it as an attachment
+export const sessionExportUrl = (id: string, format: ExportFormat) =>
+  `${API_URL}/api/sessions/${encodeURIComponent(id)}/export?format=${format}`;
+
+// Newest first
+export const fetchAlerts = async (sessionId?: string, limit = 50) => {
+  const query = sessionId ? `&sessionId=${encodeURIComponent(sessionId)}` : '';
+  const data = await getJson<{ alerts: AlertEvent[] }>(`/api/alerts?limit=${limit}${query}`);
+  return data.alerts;
+};
+
+export const fetchAlertRules = async () => {
+  const data = await getJson<{ rules: AlertRule[] }>('/api/alert-rules');
+  return data.rules;
+};
+
+export const createAlertRule = (rule: AlertRuleInput) => sendJson<AlertRule>('POST', '/api/alert-rules', rule);
+
+export const updateAlertRule = (id: string, rule: AlertRuleInput) =>
+  sendJson<AlertRule>('PUT', `/api/alert-rules/${encodeURIComponent(id)}`, rule);
+
+export const deleteAlertRule = (id: string) =>
+  sendJson<void>('DELETE', `/api/alert-rules/${encodeURIComponent(id)}`);
@@ -0,0 +1,86 @@
+import { FaceLandmarks } from '../types/emotion';
+import { FaceFeatures, NEUTRAL_FEATURES, extractFeatures } from './emotionClassifier';
+
+/**
+ * A user's own neutral face, measured during calibration. The classifier
+ * scores expressions as deviations from it instead of from population averages.
+ */
+export interface CalibrationProfile {
+  features: FaceFeatures;
+  sampleCount: number;
+  createdAt: string;
+}
+
+export const CALIBRATION_DURATION_MS = 5000;
+// At 10 FPS a five second recording should see far more frames than this
+export const MIN_CALIBRATION_SAMPLES = 15;
+
+const STORAGE_KEY = 'emotion-calibration';
+
+const FEATURE_KEYS = Object.keys(NEUTRAL_FEATURES) as (keyof FaceFeatures)[];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export interface CalibrationRecorder {
+  // Returns false when no features could be extracted from the face
+  add(keypoints: FaceLandmarks[]): boolean;
+  sampleCount(): number;
+  // Null until enough frames have been recorded
+  profile(): CalibrationProfile | null;
+}
+
+export const createCalibrationRecorder = (): CalibrationRecorder => {
+  const samples: FaceFeatures[] = [];
+
+  return {
+    add(keypoints) {
+      const features = extractFeatures(keypoints);
+      if (features) samples.push(features);
+      return features !== null;
+    },
+
+    sampleCount: () => samples.length,
+
+    profile() {
+      if (samples.length < MIN_CALIBRATION_SAMPLES) return null;
+      // The median ignores the odd blink or twitch during the recording
+      const features = Object.fromEntries(
+        FEATURE_KEYS.map(key => [key, median(samples.map(sample => sample[key]))])
+      ) as unknown as FaceFeatures;
+      return { features, sampleCount: samples.length, createdAt: new Date().toISOString() };
+    },
+  };
+};
+
+const isProfile = (value: unknown): value is CalibrationProfile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { features, sampleCount, createdAt } = value as Record<string, unknown>;
+  return (
+    typeof features === 'object' && features !== null &&
+    FEATURE_KEYS.every(key => Number.isFinite((features as Record<string, unknown>)[key])) &&
+    Number.isInteger(sampleCount) &&
+    typeof createdAt === 'string'
+  );
+};
+
+// The stored profile, or null when there is none or it is unreadable
+export const loadCalibration = (): CalibrationProfile | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return isProfile(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveCalibration = (profile: CalibrationProfile) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+};
+
+export const clearCalibration = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,48 @@
+import { ClassifierMetadata, EmotionClassifier } from '../types/classifier';
+import { Emotion } from '../types/emotion';
+import { LANDMARK_CLASSIFIER_METADATA, createLandmarkClassifier } from './emotionClassifier';
+import { FER2013_LABELS, createTfjsModelClassifier } from './tfjsModelClassifier';
+import { isEmotion } from '../../shared/emotions';
+
+type ClassifierFactory = () => EmotionClassifier;
+
+const registry = new Map<string, { metadata: ClassifierMetadata; create: ClassifierFactory }>();
+
+export const DEFAULT_CLASSIFIER_ID = LANDMARK_CLASSIFIER_METADATA.id;
+
+/**
+ * Make a backend selectable. Factories must be cheap: models are loaded in
+ * `init`, so one instance is created here just to read its metadata.
+ */
+export const registerClassifier = (create: ClassifierFactory) => {
+  const { metadata } = create();
+  if (registry.has(metadata.id)) {
+    throw new Error(`Classifier already registered: ${metadata.id}`);
+  }
+  registry.set(metadata.id, { metadata, create });
+};
+
+export const listClassifiers = (): ClassifierMetadata[] => [...registry.values()].map(({ metadata }) => metadata);
+
+// A new, uninitialized instance of a registered backend
+export const createClassifier = (id: string): EmotionClassifier => {
+  const entry = registry.get(id);
+  if (!entry) throw new Error(`Unknown classifier: ${id}`);
+  return entry.create();
+};
+
+// Comma-separated model outputs; names other than our emotions are ignored outputs
+const parseLabels = (value: string | undefined): (Emotion | null)[] =>
+  value
+    ? value.split(',').map(label => label.trim()).map(label => (isEmotion(label) ? label : null))
+    : FER2013_LABELS;
+
+registerClassifier(createLandmarkClassifier);
+registerClassifier(() =>
+  createTfjsModelClassifier({
+    url: import.meta.env.VITE_EMOTION_MODEL_URL || '/models/emotion/model.json',
+    format: import.meta.env.VITE_EMOTION_MODEL_FORMAT === 'graph' ? 'graph' : 'layers',
+    labels: parseLabels(import.meta.env.VITE_EMOTION_MODEL_LABELS),
+    metadata: { version: import.meta.env.VITE_EMOTION_MODEL_VERSION || '1' },
+  })
+);
@@ -0,0 +1,49 @@
+import { LabeledSample } from '../types/dataset';
+import { Emotion, FaceLandmarks } from '../types/emotion';
+
+export const DATASET_VERSION = 1;
+
+/**
+ * Downloadable dataset of labeled face meshes. `frames` and `labels` use the
+ * record shapes read by the scoring CLI, so the same file can be passed as
+ * both its keypoints input and its `--labels` file.
+ */
+export interface DatasetFile {
+  version: number;
+  createdAt: string;
+  frames: { timestamp: number; faces: { keypoints: FaceLandmarks[] }[] }[];
+  labels: { timestamp: number; emotion: Emotion; predicted: Emotion | null }[];
+}
+
+// Sub-pixel precision is noise from the detector and only bloats the file
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const roundPoint = ({ x, y, z }: FaceLandmarks): FaceLandmarks =>
+  z === undefined ? { x: round(x), y: round(y) } : { x: round(x), y: round(y), z: round(z) };
+
+export const toDatasetFile = (samples: LabeledSample[]): DatasetFile => {
+  // Each sample becomes its own single-face frame
+  const ordered = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  return {
+    version: DATASET_VERSION,
+    createdAt: new Date().toISOString(),
+    frames: ordered.map(sample => ({
+      timestamp: sample.timestamp,
+      faces: [{ keypoints: sample.keypoints.map(roundPoint) }],
+    })),
+    labels: ordered.map(({ timestamp, emotion, predicted }) => ({ timestamp, emotion, predicted })),
+  };
+};
+
+export const datasetFilename = (date = new Date()) =>
+  `emotion-dataset-${date.toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+
+export const downloadDataset = (samples: LabeledSample[]) => {
+  const blob = new Blob([JSON.stringify(toDatasetFile(samples))], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = datasetFilename();
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { FaceLandmarks } from '../types/emotion';
+import { EMOTIONS } from '../../shared/emotions';
+import { FaceFeatures, NEUTRAL_FEATURES, classifyEmotion, extractFeatures, scoreEmotions } from './emotionClassifier';
+
+// MediaPipe's canonical face mesh in image coordinates: 16 px per cm, y down
+const { vertices } = JSON.parse(
+  readFileSync(new URL('../../cli/fixtures/canonicalFaceMesh.json', import.meta.url), 'utf8')
+) as { vertices: number[][] };
+const face: FaceLandmarks[] = vertices.map(([x, y]) => ({ x: 320 + 16 * x, y: 240 - 16 * y }));
+
+const transform = (keypoints: FaceLandmarks[], { roll = 0, scale = 1, dx = 0, dy = 0 }) => {
+  const cos = Math.cos((roll * Math.PI) / 180);
+  const sin = Math.sin((roll * Math.PI) / 180);
+  return keypoints.map(({ x, y }) => ({
+    x: scale * (x * cos - y * sin) + dx,
+    y: scale * (x * sin + y * cos) + dy,
+  }));
+};
+
+const assertFeaturesClose = (actual: FaceFeatures | null, expected: FaceFeatures | null) => {
+  assert.ok(actual && expected);
+  (Object.keys(expected) as (keyof FaceFeatures)[]).forEach(name => {
+    assert.ok(Math.abs(actual[name] - expected[name]) < 1e-9, `${name}: ${actual[name]} != ${expected[name]}`);
+  });
+};
+
+const sum = (scores: Record<string, number>) => Object.values(scores).reduce((a, b) => a + b, 0);
+
+describe('extractFeatures', () => {
+  const features = extractFeatures(face);
+
+  it('gives the same features after roll, scale and translation', () => {
+    assertFeaturesClose(extractFeatures(transform(face, { roll: 25 })), features);
+    assertFeaturesClose(extractFeatures(transform(face, { roll: -40 })), features);
+    assertFeaturesClose(extractFeatures(transform(face, { scale: 0.3 })), features);
+    assertFeaturesClose(extractFeatures(transform(face, { dx: -150, dy: 90 })), features);
+    assertFeaturesClose(extractFeatures(transform(face, { roll: 12, scale: 2.5, dx: 40, dy: -60 })), features);
+  });
+
+  it('returns null for an empty or incomplete mesh', () => {
+    assert.equal(extractFeatures([]), null);
+    assert.equal(extractFeatures(face.slice(0, 467)), null);
+  });
+
+  it('returns null for a degenerate mesh', () => {
+    assert.equal(extractFeatures(face.map(() => ({ x: 10, y: 10 }))), null);
+  });
+});
+
+describe('scoreEmotions', () => {
+  const features = extractFeatures(face)!;
+  const expressive: FaceFeatures[] = [
+    features,
+    NEUTRAL_FEATURES,
+    { ...features, mouthCornerLift: features.mouthCornerLift + 0.1 },
+    { ...features, browFurrow: features.browFurrow - 0.15, eyeOpenness: features.eyeOpenness - 0.1 },
+    { ...features, mouthAspectRatio: 0.8, browHeight: features.browHeight + 0.2 },
+  ];
+
+  it('returns probabilities that sum to 1 over every registered emotion', () => {
+    expressive.forEach(sample => {
+      const scores = scoreEmotions(sample);
+      assert.deepEqual(Object.keys(scores).sort(), [...EMOTIONS].sort());
+      Object.values(scores).forEach(score => assert.ok(score >= 0 && score <= 1));
+      assert.ok(Math.abs(sum(scores) - 1) < 1e-9);
+    });
+  });
+
+  it('scores neutral highest on the baseline face', () => {
+    const scores = scoreEmotions(features, features);
+    const best = EMOTIONS.reduce((a, b) => (scores[b] > scores[a] ? b : a));
+    assert.equal(best, 'neutral');
+    assert.equal(classifyEmotion(face, 0, features)?.emotion, 'neutral');
+  });
+
+  it('measures deviations from the baseline it is given', () => {
+    // The same face reads as happy against a baseline whose mouth corners sit lower
+    const lowCorners = { ...features, mouthCornerLift: features.mouthCornerLift - 0.1 };
+    assert.equal(classifyEmotion(face, 0, lowCorners)?.emotion, 'happy');
+    // and as sad against one whose corners sit higher
+    const highCorners = { ...features, mouthCornerLift: features.mouthCornerLift + 0.1 };
+    assert.equal(classifyEmotion(face, 0, highCorners)?.emotion, 'sad');
+    assert.deepEqual(scoreEmotions(lowCorners, lowCorners), scoreEmotions(features, features));
+  });
+
+  it('passes the timestamp and winning score through classifyEmotion', () => {
+    const result = classifyEmotion(face, 1234, features);
+    assert.ok(result);
+    assert.equal(result.timestamp, 1234);
+    assert.equal(result.confidence, result.scores?.[result.emotion]);
+    assert.equal(classifyEmotion([], 1234), null);
+  });
+});
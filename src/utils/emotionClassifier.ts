@@ -0,0 +1,202 @@
+import { ClassifierMetadata, EmotionClassifier } from '../types/classifier';
+import { Emotion, EmotionData, FaceLandmarks } from '../types/emotion';
+import { EMOTIONS } from '../../shared/emotions';
+
+// MediaPipe FaceMesh keypoint indices used by the classifier
+const LANDMARKS = {
+  leftEyeOuter: 33,
+  leftEyeInner: 133,
+  leftEyeUpper: 159,
+  leftEyeLower: 145,
+  rightEyeOuter: 263,
+  rightEyeInner: 362,
+  rightEyeUpper: 386,
+  rightEyeLower: 374,
+  leftBrowMid: 105,
+  leftBrowInner: 107,
+  rightBrowMid: 334,
+  rightBrowInner: 336,
+  mouthLeft: 61,
+  mouthRight: 291,
+  upperLipInner: 13,
+  lowerLipInner: 14,
+} as const;
+
+const MIN_KEYPOINTS = 468;
+
+// The emotions the geometry rules below can score
+export const LANDMARK_EMOTIONS = ['happy', 'sad', 'angry', 'surprised', 'neutral'] as const satisfies readonly Emotion[];
+
+/**
+ * Geometric features derived from a face mesh. Distances are normalized by the
+ * inter-ocular distance and measured in a roll-corrected face frame, so they are
+ * independent of face size, position and head tilt.
+ */
+export interface FaceFeatures {
+  mouthAspectRatio: number;
+  mouthWidth: number;
+  mouthCornerLift: number;
+  browHeight: number;
+  browFurrow: number;
+  eyeOpenness: number;
+}
+
+// Typical feature values for a relaxed, neutral face, used until a user calibrates
+export const NEUTRAL_FEATURES: FaceFeatures = {
+  mouthAspectRatio: 0.05,
+  mouthWidth: 0.52,
+  mouthCornerLift: 0.0,
+  browHeight: 0.3,
+  browFurrow: 0.3,
+  eyeOpenness: 0.3,
+};
+
+const distance = (a: FaceLandmarks, b: FaceLandmarks) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Extract normalized features from FaceMesh keypoints.
+ * Returns null when the mesh is incomplete or degenerate.
+ */
+export const extractFeatures = (keypoints: FaceLandmarks[]): FaceFeatures | null => {
+  if (keypoints.length < MIN_KEYPOINTS) return null;
+
+  const leftEye = keypoints[LANDMARKS.leftEyeOuter];
+  const rightEye = keypoints[LANDMARKS.rightEyeOuter];
+  const interOcular = distance(leftEye, rightEye);
+  if (interOcular === 0) return null;
+
+  // Rotate every point so the eye line is horizontal, then scale by inter-ocular distance
+  const angle = Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x);
+  const cos = Math.cos(-angle);
+  const sin = Math.sin(-angle);
+  const point = (index: number): FaceLandmarks => {
+    const { x, y } = keypoints[index];
+    const dx = x - leftEye.x;
+    const dy = y - leftEye.y;
+    return {
+      x: (dx * cos - dy * sin) / interOcular,
+      y: (dx * sin + dy * cos) / interOcular,
+    };
+  };
+
+  const mouthLeft = point(LANDMARKS.mouthLeft);
+  const mouthRight = point(LANDMARKS.mouthRight);
+  const upperLip = point(LANDMARKS.upperLipInner);
+  const lowerLip = point(LANDMARKS.lowerLipInner);
+  const mouthWidth = distance(mouthLeft, mouthRight);
+  if (mouthWidth === 0) return null;
+
+  const lipCenterY = (upperLip.y + lowerLip.y) / 2;
+  const cornerY = (mouthLeft.y + mouthRight.y) / 2;
+
+  const leftEyeUpper = point(LANDMARKS.leftEyeUpper);
+  const rightEyeUpper = point(LANDMARKS.rightEyeUpper);
+  const leftEyeWidth = distance(point(LANDMARKS.leftEyeOuter), point(LANDMARKS.leftEyeInner));
+  const rightEyeWidth = distance(point(LANDMARKS.rightEyeOuter), point(LANDMARKS.rightEyeInner));
+  if (leftEyeWidth === 0 || rightEyeWidth === 0) return null;
+
+  return {
+    mouthAspectRatio: distance(upperLip, lowerLip) / mouthWidth,
+    mouthWidth,
+    // Image y grows downwards, so corners above the lip centre give a positive lift
+    mouthCornerLift: lipCenterY - cornerY,
+    browHeight:
+      (leftEyeUpper.y - point(LANDMARKS.leftBrowMid).y +
+        rightEyeUpper.y - point(LANDMARKS.rightBrowMid).y) / 2,
+    browFurrow: distance(point(LANDMARKS.leftBrowInner), point(LANDMARKS.rightBrowInner)),
+    eyeOpenness:
+      (distance(leftEyeUpper, point(LANDMARKS.leftEyeLower)) / leftEyeWidth +
+        distance(rightEyeUpper, point(LANDMARKS.rightEyeLower)) / rightEyeWidth) / 2,
+  };
+};
+
+// Emotions without a logit get a probability of 0
+const softmax = (logits: Partial<Record<Emotion, number>>): Record<Emotion, number> => {
+  const max = Math.max(...EMOTIONS.map(emotion => logits[emotion] ?? -Infinity));
+  const exps = EMOTIONS.map(emotion => (emotion in logits ? Math.exp((logits[emotion] ?? 0) - max) : 0));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return EMOTIONS.reduce((acc, emotion, index) => {
+    acc[emotion] = exps[index] / sum;
+    return acc;
+  }, {} as Record<Emotion, number>);
+};
+
+/**
+ * Score emotions from face features. Each of LANDMARK_EMOTIONS gets a logit
+ * built from the features' deviation from the neutral reference, and other
+ * registered emotions score 0; the result is a probability distribution that
+ * sums to 1.
+ */
+export const scoreEmotions = (
+  features: FaceFeatures,
+  baseline: FaceFeatures = NEUTRAL_FEATURES
+): Record<Emotion, number> => {
+  const d = {
+    mouthOpen: (features.mouthAspectRatio - baseline.mouthAspectRatio) / 0.25,
+    mouthWidth: (features.mouthWidth - baseline.mouthWidth) / 0.1,
+    cornerLift: (features.mouthCornerLift - baseline.mouthCornerLift) / 0.04,
+    browRaise: (features.browHeight - baseline.browHeight) / 0.08,
+    browFurrow: (baseline.browFurrow - features.browFurrow) / 0.06,
+    eyeOpen: (features.eyeOpenness - baseline.eyeOpenness) / 0.08,
+  };
+
+  const positive = (value: number) => Math.max(0, value);
+  const negative = (value: number) => Math.max(0, -value);
+
+  const logits: Record<(typeof LANDMARK_EMOTIONS)[number], number> = {
+    happy: 2 * positive(d.cornerLift) + positive(d.mouthWidth) - positive(d.browFurrow),
+    sad: 2 * negative(d.cornerLift) + 0.5 * negative(d.eyeOpen) - positive(d.mouthOpen),
+    angry: 2 * positive(d.browFurrow) + negative(d.browRaise) + 0.5 * negative(d.eyeOpen),
+    surprised: 1.5 * positive(d.mouthOpen) + positive(d.browRaise) + positive(d.eyeOpen),
+    neutral: 0,
+  };
+
+  // Neutral wins when nothing deviates much; it decays as expressions get stronger
+  const expressiveness = Math.max(...Object.values(d).map(Math.abs));
+  logits.neutral = 1.5 - 0.5 * expressiveness;
+
+  return softmax(logits);
+};
+
+/**
+ * Classify the emotion shown by a single FaceMesh face, relative to the given
+ * neutral baseline. Returns null when no usable features can be extracted from
+ * the keypoints.
+ */
+export const classifyEmotion = (
+  keypoints: FaceLandmarks[],
+  timestamp: number = Date.now(),
+  baseline: FaceFeatures = NEUTRAL_FEATURES
+): EmotionData | null => {
+  const features = extractFeatures(keypoints);
+  if (!features) return null;
+
+  const scores = scoreEmotions(features, baseline);
+  const emotion = EMOTIONS.reduce((best, candidate) =>
+    scores[candidate] > scores[best] ? candidate : best
+  );
+
+  return {
+    emotion,
+    confidence: scores[emotion],
+    timestamp,
+    scores,
+  };
+};
+
+export const LANDMARK_CLASSIFIER_METADATA: ClassifierMetadata = {
+  id: 'landmarks',
+  version: '1.0.0',
+  name: 'Landmark heuristics',
+  description: 'Rules over face mesh geometry; fast and needs no model download',
+  input: 'landmarks',
+  emotions: LANDMARK_EMOTIONS,
+};
+
+// The geometry rules above as a classifier backend
+export const createLandmarkClassifier = (): EmotionClassifier => ({
+  metadata: LANDMARK_CLASSIFIER_METADATA,
+  init: async () => {},
+  classify: ({ keypoints, timestamp, baseline }) => classifyEmotion(keypoints, timestamp, baseline),
+  dispose: () => {},
+});
@@ -0,0 +1,114 @@
+import { EmotionClassifier } from '../types/classifier';
+import { EmotionData, EmotionTransition, FaceLandmarks } from '../types/emotion';
+import { FaceFeatures, NEUTRAL_FEATURES, createLandmarkClassifier } from './emotionClassifier';
+import {
+  DEFAULT_SMOOTHING,
+  EmotionSmoother,
+  SmoothingConfig,
+  createEmotionSmoother,
+} from './emotionSmoothing';
+import { BoundingBox, FaceTrackerOptions, createFaceTracker } from './faceTracker';
+
+export interface DetectedFace {
+  keypoints: FaceLandmarks[];
+  // Derived from the keypoints when the detector does not provide one
+  box?: BoundingBox;
+}
+
+export interface FaceResult {
+  faceId: number;
+  box: BoundingBox;
+  keypoints: FaceLandmarks[];
+  // Null when the face mesh could not be classified
+  emotion: EmotionData | null;
+  transition: EmotionTransition | null;
+}
+
+export interface EmotionPipelineOptions {
+  smoothing?: SmoothingConfig;
+  tracker?: FaceTrackerOptions;
+  // Neutral features the classifier measures expressions against
+  baseline?: FaceFeatures;
+  // Initialized backend to classify faces with; the landmark heuristics by default
+  classifier?: EmotionClassifier;
+}
+
+export interface EmotionPipeline {
+  // Track, classify and smooth the faces found in one frame; image-based
+  // classifiers also need the frame itself
+  process(faces: DetectedFace[], timestamp: number, image?: unknown): FaceResult[];
+  reset(): void;
+}
+
+export const keypointBounds = (keypoints: FaceLandmarks[]): BoundingBox => ({
+  xMin: Math.min(...keypoints.map(point => point.x)),
+  yMin: Math.min(...keypoints.map(point => point.y)),
+  xMax: Math.max(...keypoints.map(point => point.x)),
+  yMax: Math.max(...keypoints.map(point => point.y)),
+});
+
+/**
+ * Detector-independent emotion pipeline: face tracking, classification and
+ * per-face smoothing. Has no DOM or React dependencies, so it runs in the
+ * browser and in Node alike.
+ */
+export const createEmotionPipeline = ({
+  smoothing = DEFAULT_SMOOTHING.ema,
+  tracker: trackerOptions,
+  baseline = NEUTRAL_FEATURES,
+  classifier = createLandmarkClassifier(),
+}: EmotionPipelineOptions = {}): EmotionPipeline => {
+  const { id, version } = classifier.metadata;
+  const tracker = createFaceTracker(trackerOptions);
+  // One smoother per tracked face, so faces don't blend into each other's history
+  const smoothers = new Map<number, EmotionSmoother>();
+
+  return {
+    process(faces, timestamp, image) {
+      const boxes = faces.map(face => face.box ?? keypointBounds(face.keypoints));
+      const faceIds = tracker.update(boxes);
+
+      // Forget the history of faces that left the frame
+      const liveIds = new Set(tracker.trackIds());
+      smoothers.forEach((_, faceId) => {
+        if (!liveIds.has(faceId)) smoothers.delete(faceId);
+      });
+
+      return faces.map((face, index) => {
+        const faceId = faceIds[index];
+        const result: FaceResult = {
+          faceId,
+          box: boxes[index],
+          keypoints: face.keypoints,
+          emotion: null,
+          transition: null,
+        };
+
+        const raw = classifier.classify({
+          keypoints: face.keypoints,
+          box: boxes[index],
+          timestamp,
+          image,
+          baseline,
+        });
+        if (!raw) return result;
+
+        let smoother = smoothers.get(faceId);
+        if (!smoother) {
+          smoother = createEmotionSmoother(smoothing);
+          smoothers.set(faceId, smoother);
+        }
+
+        const smoothed = smoother.push(raw);
+        result.emotion = { ...smoothed.emotion, faceId, classifier: { id, version } };
+        result.transition = smoothed.transition && { ...smoothed.transition, faceId };
+        return result;
+      });
+    },
+
+    reset() {
+      tracker.reset();
+      smoothers.clear();
+    },
+  };
+};
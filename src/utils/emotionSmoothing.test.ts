@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Emotion, EmotionData, EmotionTransition } from '../types/emotion';
+import { DEFAULT_SMOOTHING, SmoothingConfig, SmoothingMethod, createEmotionSmoother } from './emotionSmoothing';
+
+const FRAME_MS = 100;
+
+// One frame per label, FRAME_MS apart
+const framesOf = (labels: Emotion[], confidence = 0.9): EmotionData[] =>
+  labels.map((emotion, index) => ({ emotion, confidence, timestamp: index * FRAME_MS }));
+
+const repeat = (emotion: Emotion, count: number): Emotion[] => Array.from({ length: count }, () => emotion);
+
+const run = (config: SmoothingConfig, frames: EmotionData[]) => {
+  const smoother = createEmotionSmoother(config);
+  const labels: Emotion[] = [];
+  const transitions: EmotionTransition[] = [];
+  frames.forEach(frame => {
+    const { emotion, transition } = smoother.push(frame);
+    labels.push(emotion.emotion);
+    if (transition) transitions.push(transition);
+  });
+  return { labels, transitions };
+};
+
+describe('hysteresis', () => {
+  const config: SmoothingConfig = { method: 'hysteresis', minDwellMs: 500 };
+
+  it('holds the current label while another is seen for less than minDwellMs', () => {
+    const { labels, transitions } = run(config, framesOf([
+      ...repeat('happy', 3),
+      ...repeat('sad', 5),
+      'happy',
+      ...repeat('sad', 5),
+    ]));
+    assert.ok(labels.every(label => label === 'happy'));
+    assert.deepEqual(transitions, []);
+  });
+
+  it('switches once the other label has been seen for minDwellMs', () => {
+    const { labels, transitions } = run(config, framesOf([...repeat('happy', 3), ...repeat('sad', 7)]));
+    // The first sad frame is at 300 ms, so the label changes on the frame at 800 ms
+    assert.deepEqual(labels, [...repeat('happy', 8), ...repeat('sad', 2)]);
+    assert.deepEqual(transitions, [{ from: 'happy', to: 'sad', at: 800, duration: 800 }]);
+  });
+});
+
+describe('majority', () => {
+  it('takes the most frequent label over the window', () => {
+    const { labels } = run({ method: 'majority', windowSize: 5 }, framesOf([...repeat('happy', 5), ...repeat('sad', 3)]));
+    // Two sad votes out of five are not enough; the third is
+    assert.deepEqual(labels, [...repeat('happy', 7), 'sad']);
+  });
+
+  it('keeps the current label on a tie', () => {
+    const { labels } = run({ method: 'majority', windowSize: 4 }, framesOf([...repeat('happy', 4), ...repeat('sad', 2)]));
+    assert.deepEqual(labels, repeat('happy', 6));
+  });
+
+  it('averages the confidence of the winning votes', () => {
+    const smoother = createEmotionSmoother({ method: 'majority', windowSize: 3 });
+    smoother.push({ emotion: 'happy', confidence: 0.6, timestamp: 0 });
+    smoother.push({ emotion: 'sad', confidence: 0.9, timestamp: 100 });
+    const { emotion } = smoother.push({ emotion: 'happy', confidence: 0.8, timestamp: 200 });
+    assert.equal(emotion.emotion, 'happy');
+    assert.ok(Math.abs(emotion.confidence - 0.7) < 1e-9);
+  });
+});
+
+describe('ema', () => {
+  it('lags a change until the average score crosses over', () => {
+    const { labels } = run({ method: 'ema', alpha: 0.3 }, framesOf([...repeat('happy', 5), ...repeat('sad', 5)]));
+    assert.equal(labels[5], 'happy');
+    assert.equal(labels[9], 'sad');
+  });
+});
+
+describe('transitions', () => {
+  const labels: Emotion[] = [
+    ...repeat('happy', 10),
+    ...repeat('sad', 15),
+    ...repeat('angry', 15),
+    ...repeat('happy', 15),
+  ];
+
+  (Object.keys(DEFAULT_SMOOTHING) as SmoothingMethod[]).forEach(method => {
+    it(`${method} emits exactly one transition per label change`, () => {
+      const { labels: smoothed, transitions } = run(DEFAULT_SMOOTHING[method], framesOf(labels));
+
+      const changes = smoothed.flatMap((label, index) =>
+        index > 0 && label !== smoothed[index - 1] ? [{ from: smoothed[index - 1], to: label, at: index * FRAME_MS }] : []
+      );
+      assert.deepEqual(
+        changes.map(({ from, to }) => `${from}>${to}`),
+        ['happy>sad', 'sad>angry', 'angry>happy']
+      );
+      assert.deepEqual(transitions.map(({ from, to, at }) => ({ from, to, at })), changes);
+
+      // Each transition reports how long the previous label was held
+      let heldSince = 0;
+      transitions.forEach(transition => {
+        assert.equal(transition.duration, transition.at - heldSince);
+        heldSince = transition.at;
+      });
+    });
+  });
+
+  it('starts over after reset without a transition from the previous run', () => {
+    const smoother = createEmotionSmoother({ method: 'none' });
+    smoother.push({ emotion: 'happy', confidence: 0.9, timestamp: 0 });
+    smoother.reset();
+    assert.equal(smoother.push({ emotion: 'sad', confidence: 0.9, timestamp: 100 }).transition, null);
+  });
+});
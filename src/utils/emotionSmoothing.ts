@@ -0,0 +1,161 @@
+import { Emotion, EmotionData, EmotionTransition } from '../types/emotion';
+import { EMOTIONS } from '../../shared/emotions';
+
+/**
+ * Smoothing applied between the per-frame classifier and the rest of the app.
+ *
+ * - ema: exponential moving average over the score distribution; `alpha` is the
+ *   weight of the newest frame.
+ * - hysteresis: the label only changes once a different emotion has been seen
+ *   continuously for `minDwellMs`.
+ * - majority: the most frequent label over the last `windowSize` frames.
+ */
+export type SmoothingConfig =
+  | { method: 'none' }
+  | { method: 'ema'; alpha: number }
+  | { method: 'hysteresis'; minDwellMs: number }
+  | { method: 'majority'; windowSize: number };
+
+export type SmoothingMethod = SmoothingConfig['method'];
+
+export const DEFAULT_SMOOTHING: { [M in SmoothingMethod]: Extract<SmoothingConfig, { method: M }> } = {
+  none: { method: 'none' },
+  ema: { method: 'ema', alpha: 0.3 },
+  hysteresis: { method: 'hysteresis', minDwellMs: 500 },
+  majority: { method: 'majority', windowSize: 9 },
+};
+
+export interface SmoothedFrame {
+  emotion: EmotionData;
+  // Set on the frame where the smoothed label changed
+  transition: EmotionTransition | null;
+}
+
+export interface EmotionSmoother {
+  push(frame: EmotionData): SmoothedFrame;
+  reset(): void;
+}
+
+type Scores = Record<Emotion, number>;
+
+// Score distribution of a frame; frames without scores spread the remainder evenly
+const frameScores = (frame: EmotionData): Scores => {
+  if (frame.scores) return frame.scores;
+  const rest = (1 - frame.confidence) / (EMOTIONS.length - 1);
+  return Object.fromEntries(
+    EMOTIONS.map(emotion => [emotion, emotion === frame.emotion ? frame.confidence : rest])
+  ) as Scores;
+};
+
+const topEmotion = (scores: Scores) =>
+  EMOTIONS.reduce((best, emotion) => (scores[emotion] > scores[best] ? emotion : best), EMOTIONS[0]);
+
+// Map a frame to its smoothed label and scores; each method keeps its own state
+type Stage = (frame: EmotionData) => EmotionData;
+
+const createStage = (config: SmoothingConfig): Stage => {
+  switch (config.method) {
+    case 'ema': {
+      let smoothed: Scores | null = null;
+      return (frame) => {
+        const scores = frameScores(frame);
+        const previous = smoothed;
+        const next = previous
+          ? Object.fromEntries(
+              EMOTIONS.map(emotion => [
+                emotion,
+                config.alpha * scores[emotion] + (1 - config.alpha) * previous[emotion],
+              ])
+            ) as Scores
+          : scores;
+        smoothed = next;
+        const emotion = topEmotion(next);
+        return { emotion, confidence: next[emotion], timestamp: frame.timestamp, scores: next };
+      };
+    }
+
+    case 'hysteresis': {
+      let stable: Emotion | null = null;
+      let candidate: Emotion | null = null;
+      let candidateSince = 0;
+      return (frame) => {
+        if (stable === null || frame.emotion === stable) {
+          stable = frame.emotion;
+          candidate = null;
+        } else if (frame.emotion !== candidate) {
+          candidate = frame.emotion;
+          candidateSince = frame.timestamp;
+        } else if (frame.timestamp - candidateSince >= config.minDwellMs) {
+          stable = candidate;
+          candidate = null;
+        }
+        const scores = frameScores(frame);
+        return { ...frame, emotion: stable, confidence: scores[stable] };
+      };
+    }
+
+    case 'majority': {
+      let window: EmotionData[] = [];
+      let current: Emotion | null = null;
+      return (frame) => {
+        window = [...window.slice(-(config.windowSize - 1)), frame];
+
+        const counts = new Map<Emotion, number>();
+        window.forEach(({ emotion }) => counts.set(emotion, (counts.get(emotion) ?? 0) + 1));
+        const highest = Math.max(...counts.values());
+        // On a tie keep the current label, otherwise take the most recent of the leaders
+        const leaders = window.map(({ emotion }) => emotion).filter(emotion => counts.get(emotion) === highest);
+        const emotion = current !== null && leaders.includes(current) ? current : leaders[leaders.length - 1];
+        current = emotion;
+
+        const votes = window.filter(vote => vote.emotion === emotion);
+        const confidence = votes.reduce((sum, vote) => sum + vote.confidence, 0) / votes.length;
+        const scores = Object.fromEntries(
+          EMOTIONS.map(key => [key, window.reduce((sum, vote) => sum + frameScores(vote)[key], 0) / window.length])
+        ) as Scores;
+        return { emotion, confidence, timestamp: frame.timestamp, scores };
+      };
+    }
+
+    case 'none':
+      return (frame) => frame;
+  }
+};
+
+/**
+ * Create a smoother that turns raw classifier frames into stable labels and
+ * reports a transition whenever the smoothed label changes.
+ */
+export const createEmotionSmoother = (config: SmoothingConfig): EmotionSmoother => {
+  let stage = createStage(config);
+  let current: Emotion | null = null;
+  let heldSince = 0;
+
+  return {
+    push(frame) {
+      const emotion = stage(frame);
+      let transition: EmotionTransition | null = null;
+
+      if (current !== null && emotion.emotion !== current) {
+        transition = {
+          from: current,
+          to: emotion.emotion,
+          at: emotion.timestamp,
+          duration: emotion.timestamp - heldSince,
+        };
+      }
+      if (current === null || transition) {
+        current = emotion.emotion;
+        heldSince = emotion.timestamp;
+      }
+
+      return { emotion, transition };
+    },
+
+    reset() {
+      stage = createStage(config);
+      current = null;
+      heldSince = 0;
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { Emotion, EmotionData } from '../types/emotion';
+import { emotionRecord } from '../../shared/emotions';
+
+// A gap longer than this between two frames of one face means detection
+// stopped or the face left; matches the server's time share rule
+export const MAX_FRAME_GAP_MS = 2000;
+
+// Duration of a frame followed by such a gap, or of a face's last frame
+export const NOMINAL_FRAME_MS = 100;
+
+// Stretch of time one face showed one emotion
+export interface DwellPeriod {
+  faceId?: number;
+  emotion: Emotion;
+  start: number;
+  end: number;
+}
+
+// Frames per face, each sorted by timestamp
+export const groupByFace = (emotions: EmotionData[]) => {
+  const faces = new Map<number | undefined, EmotionData[]>();
+  emotions.forEach(emotion => {
+    const frames = faces.get(emotion.faceId) ?? [];
+    frames.push(emotion);
+    faces.set(emotion.faceId, frames);
+  });
+  faces.forEach(frames => frames.sort((a, b) => a.timestamp - b.timestamp));
+  return faces;
+};
+
+/**
+ * Merge consecutive frames of a face with the same emotion into periods. A
+ * frame lasts until the face's next frame when that comes within
+ * MAX_FRAME_GAP_MS, and NOMINAL_FRAME_MS otherwise, so a pause in detection
+ * splits a period; a face's last frame also lasts NOMINAL_FRAME_MS.
+ */
+export const toDwellPeriods = (emotions: EmotionData[]): DwellPeriod[] => {
+  const periods: DwellPeriod[] = [];
+  groupByFace(emotions).forEach((frames, faceId) => {
+    let current: DwellPeriod | null = null;
+    frames.forEach((frame, index) => {
+      const next = frames[index + 1];
+      const end = next && next.timestamp - frame.timestamp <= MAX_FRAME_GAP_MS
+        ? next.timestamp
+        : frame.timestamp + NOMINAL_FRAME_MS;
+      if (current && current.emotion === frame.emotion && current.end === frame.timestamp) {
+        current.end = end;
+      } else {
+        current = { faceId, emotion: frame.emotion, start: frame.timestamp, end };
+        periods.push(current);
+      }
+    });
+  });
+  return periods;
+};
+
+// Seconds each emotion was shown, summed over faces
+export const timeShare = (periods: DwellPeriod[]): Record<Emotion, number> => {
+  const seconds = emotionRecord();
+  periods.forEach(({ emotion, start, end }) => {
+    seconds[emotion] += (end - start) / 1000;
+  });
+  return seconds;
+};
+
+// Wall-clock time of a timestamp, for chart axes
+export const formatClockTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
@@ -0,0 +1,222 @@
+import * as tf from '@tensorflow/tfjs';
+import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection';
+import { EmotionClassifier } from '../types/classifier';
+import { createClassifier } from './classifierRegistry';
+import { FaceFeatures } from './emotionClassifier';
+import { DetectedFace, EmotionPipeline, FaceResult, createEmotionPipeline } from './emotionPipeline';
+import { SmoothingConfig } from './emotionSmoothing';
+
+export type AnalyzerImage = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export interface AnalyzerConfig {
+  classifierId: string;
+  smoothing: SmoothingConfig;
+  baseline?: FaceFeatures;
+}
+
+export interface AnalyzeOptions {
+  timestamp: number;
+  // False to only find faces, e.g. while calibrating
+  classify: boolean;
+}
+
+export interface FrameAnalysis {
+  faces: DetectedFace[];
+  // Empty unless the frame was classified
+  results: FaceResult[];
+}
+
+export interface EngineStats {
+  thread: 'main' | 'worker';
+  // Active TF.js backend, e.g. webgl or wasm
+  backend: string;
+  numTensors: number;
+  numBytes: number;
+}
+
+/**
+ * Face detection plus the emotion pipeline behind one async interface, so the
+ * TF.js work can run on the main thread or in a worker.
+ */
+export interface FaceAnalyzer {
+  readonly thread: 'main' | 'worker';
+  init(maxFaces: number): Promise<void>;
+  // Select the classifier and rebuild the pipeline; rejects when the classifier fails to load
+  configure(config: AnalyzerConfig): Promise<void>;
+  analyze(image: AnalyzerImage, options: AnalyzeOptions): Promise<FrameAnalysis>;
+  // Drop tracking and smoothing history
+  reset(): void;
+  stats(): Promise<EngineStats>;
+  dispose(): void;
+}
+
+// Runs everything in the calling thread; also what the worker uses internally
+export const createLocalAnalyzer = (thread: 'main' | 'worker' = 'main'): FaceAnalyzer => {
+  let detector: faceLandmarksDetection.FaceLandmarksDetector | null = null;
+  let classifier: EmotionClassifier | null = null;
+  let pipeline: EmotionPipeline | null = null;
+
+  return {
+    thread,
+
+    async init(maxFaces) {
+      await tf.ready();
+      detector = await faceLandmarksDetection.createDetector(
+        faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
+        { runtime: 'tfjs', maxFaces, refineLandmarks: true }
+      );
+    },
+
+    async configure({ classifierId, smoothing, baseline }) {
+      pipeline = null;
+      if (classifier?.metadata.id !== classifierId) {
+        classifier?.dispose();
+        classifier = null;
+        const next = createClassifier(classifierId);
+        try {
+          await next.init();
+        } catch (err) {
+          next.dispose();
+          throw err;
+        }
+        classifier = next;
+      }
+      pipeline = createEmotionPipeline({ smoothing, baseline, classifier });
+    },
+
+    async analyze(image, { timestamp, classify }) {
+      if (!detector) throw new Error('Face analyzer is not initialized');
+      const detected = await detector.estimateFaces(image);
+      // Plain objects only, so results can be posted between threads
+      const faces: DetectedFace[] = detected.map(({ keypoints, box }) => ({
+        keypoints: keypoints.map(({ x, y, z }) => ({ x, y, z })),
+        box: { xMin: box.xMin, yMin: box.yMin, xMax: box.xMax, yMax: box.yMax },
+      }));
+      const results = classify && pipeline ? pipeline.process(faces, timestamp, image) : [];
+      return { faces, results };
+    },
+
+    reset() {
+      pipeline?.reset();
+    },
+
+    async stats() {
+      const { numTensors, numBytes } = tf.memory();
+      return { thread, backend: tf.getBackend(), numTensors, numBytes };
+    },
+
+    dispose() {
+      detector?.dispose();
+      classifier?.dispose();
+      detector = null;
+      classifier = null;
+      pipeline = null;
+    },
+  };
+};
+
+// Messages to the worker; every request carries an id its reply echoes
+export type AnalyzerRequest =
+  | { type: 'init'; id: number; maxFaces: number }
+  | { type: 'configure'; id: number; config: AnalyzerConfig }
+  | { type: 'analyze'; id: number; image: ImageBitmap; options: AnalyzeOptions }
+  | { type: 'reset'; id: number }
+  | { type: 'stats'; id: number };
+
+export type AnalyzerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+// A request before its id is assigned; distributes over the union so each type keeps its fields
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestBody = WithoutId<AnalyzerRequest>;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+// Proxy to a dedicated worker; frames are transferred as ImageBitmaps
+const createWorkerAnalyzer = (): FaceAnalyzer => {
+  const worker = new Worker(new URL('../workers/faceAnalyzer.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 1;
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  worker.onmessage = ({ data }: MessageEvent<AnalyzerResponse>) => {
+    const request = pending.get(data.id);
+    if (!request) return;
+    pending.delete(data.id);
+    if ('error' in data) {
+      request.reject(new Error(data.error));
+    } else {
+      request.resolve(data.result);
+    }
+  };
+  worker.onerror = (event) => {
+    rejectAll(new Error(event.message || 'Face analysis worker failed'));
+  };
+
+  const request = <T>(message: RequestBody, transfer: Transferable[] = []) =>
+    new Promise<T>((resolve, reject) => {
+      const id = nextId;
+      nextId += 1;
+      pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      worker.postMessage({ ...message, id }, transfer);
+    });
+
+  return {
+    thread: 'worker',
+
+    init: (maxFaces) => request<void>({ type: 'init', maxFaces }),
+
+    configure: (config) => request<void>({ type: 'configure', config }),
+
+    async analyze(image, options) {
+      const bitmap = await createImageBitmap(image);
+      return request<FrameAnalysis>({ type: 'analyze', image: bitmap, options }, [bitmap]);
+    },
+
+    reset() {
+      request<void>({ type: 'reset' }).catch(() => {});
+    },
+
+    stats: () => request<EngineStats>({ type: 'stats' }),
+
+    dispose() {
+      worker.terminate();
+      rejectAll(new Error('Face analyzer was disposed'));
+    },
+  };
+};
+
+// TF.js needs OffscreenCanvas for GPU work inside a worker
+export const supportsWorkerAnalysis = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+/**
+ * Start a face analyzer in a worker where possible, falling back to the main
+ * thread when workers lack OffscreenCanvas or the worker fails to start.
+ */
+export const initFaceAnalyzer = async (maxFaces: number): Promise<FaceAnalyzer> => {
+  if (supportsWorkerAnalysis()) {
+    const analyzer = createWorkerAnalyzer();
+    try {
+      await analyzer.init(maxFaces);
+      return analyzer;
+    } catch (err) {
+      console.warn('Face analysis worker failed to start, using the main thread:', err);
+      analyzer.dispose();
+    }
+  }
+
+  const analyzer = createLocalAnalyzer();
+  await analyzer.init(maxFaces);
+  return analyzer;
+};
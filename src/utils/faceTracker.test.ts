@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BoundingBox, createFaceTracker, iou } from './faceTracker';
+
+const box = (x: number, y: number, size = 100): BoundingBox => ({ xMin: x, yMin: y, xMax: x + size, yMax: y + size });
+
+describe('iou', () => {
+  it('is 1 for the same box and 0 for boxes that only touch', () => {
+    assert.equal(iou(box(0, 0), box(0, 0)), 1);
+    assert.equal(iou(box(0, 0), box(100, 0)), 0);
+  });
+
+  it('divides the intersection by the union', () => {
+    // 50x100 overlap of two 100x100 boxes
+    assert.equal(iou(box(0, 0), box(50, 0)), 5000 / 15000);
+  });
+});
+
+describe('createFaceTracker', () => {
+  it('keeps a face id while the face moves a little each frame', () => {
+    const tracker = createFaceTracker();
+    const ids = [0, 10, 20, 30, 40].map(x => tracker.update([box(x, 50)])[0]);
+    assert.deepEqual(ids, [1, 1, 1, 1, 1]);
+  });
+
+  it('gives a new face a fresh id and keeps the others', () => {
+    const tracker = createFaceTracker();
+    assert.deepEqual(tracker.update([box(0, 0)]), [1]);
+    // The new face comes first in the detector's output
+    assert.deepEqual(tracker.update([box(400, 0), box(5, 0)]), [2, 1]);
+    assert.deepEqual(tracker.trackIds().sort(), [1, 2]);
+  });
+
+  it('keeps an id through a short dropout and drops it after the miss limit', () => {
+    const tracker = createFaceTracker({ maxMissedFrames: 2 });
+    tracker.update([box(0, 0)]);
+    tracker.update([]);
+    tracker.update([]);
+    assert.deepEqual(tracker.trackIds(), [1]);
+    assert.deepEqual(tracker.update([box(0, 0)]), [1]);
+
+    tracker.update([]);
+    tracker.update([]);
+    tracker.update([]);
+    assert.deepEqual(tracker.trackIds(), []);
+    assert.deepEqual(tracker.update([box(0, 0)]), [2]);
+  });
+
+  it('does not match a detection that overlaps too little', () => {
+    const tracker = createFaceTracker({ iouThreshold: 0.5 });
+    tracker.update([box(0, 0)]);
+    // IoU of a 60 px shift is 40 / 160 = 0.25
+    assert.deepEqual(tracker.update([box(60, 0)]), [2]);
+  });
+
+  it('does not swap the ids of two faces that cross', () => {
+    const tracker = createFaceTracker();
+    let ids = tracker.update([box(0, 0), box(300, 40)]);
+    assert.deepEqual(ids, [1, 2]);
+
+    // The faces pass each other, 20 px a frame, and the detector lists them in either order
+    for (let step = 1; step <= 15; step += 1) {
+      const left = box(step * 20, 0);
+      const right = box(300 - step * 20, 40);
+      if (step % 2 === 0) {
+        ids = tracker.update([left, right]);
+        assert.deepEqual(ids, [1, 2], `step ${step}`);
+      } else {
+        ids = tracker.update([right, left]);
+        assert.deepEqual(ids, [2, 1], `step ${step}`);
+      }
+    }
+  });
+
+  it('starts ids over after reset', () => {
+    const tracker = createFaceTracker();
+    tracker.update([box(0, 0), box(300, 0)]);
+    tracker.reset();
+    assert.deepEqual(tracker.update([box(300, 0)]), [1]);
+  });
+});
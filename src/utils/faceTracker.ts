@@ -0,0 +1,96 @@
+export interface BoundingBox {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+interface Track {
+  id: number;
+  box: BoundingBox;
+  // Consecutive updates in which the track was not matched
+  missed: number;
+}
+
+export interface FaceTrackerOptions {
+  // Minimum overlap for a detection to continue an existing track
+  iouThreshold?: number;
+  // Updates a track survives without a match, so short detection dropouts keep the id
+  maxMissedFrames?: number;
+}
+
+export interface FaceTracker {
+  // Assign a track id to each box, in the same order as the boxes
+  update(boxes: BoundingBox[]): number[];
+  // Ids of all live tracks, including ones briefly unmatched
+  trackIds(): number[];
+  reset(): void;
+}
+
+// Intersection over union of two boxes, 0 when they do not overlap
+export const iou = (a: BoundingBox, b: BoundingBox) => {
+  const width = Math.min(a.xMax, b.xMax) - Math.max(a.xMin, b.xMin);
+  const height = Math.min(a.yMax, b.yMax) - Math.max(a.yMin, b.yMin);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  const area = (box: BoundingBox) => (box.xMax - box.xMin) * (box.yMax - box.yMin);
+  return intersection / (area(a) + area(b) - intersection);
+};
+
+/**
+ * Keeps stable ids for faces across frames by matching each detection to the
+ * previous frame's box it overlaps most. Matching is greedy, best pair first.
+ */
+export const createFaceTracker = ({
+  iouThreshold = 0.3,
+  maxMissedFrames = 10,
+}: FaceTrackerOptions = {}): FaceTracker => {
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  return {
+    update(boxes) {
+      const candidates: { track: Track; boxIndex: number; overlap: number }[] = [];
+      tracks.forEach(track => {
+        boxes.forEach((box, boxIndex) => {
+          const overlap = iou(track.box, box);
+          if (overlap >= iouThreshold) candidates.push({ track, boxIndex, overlap });
+        });
+      });
+      candidates.sort((a, b) => b.overlap - a.overlap);
+
+      const ids: (number | null)[] = boxes.map(() => null);
+      const matched = new Set<Track>();
+      candidates.forEach(({ track, boxIndex }) => {
+        if (matched.has(track) || ids[boxIndex] !== null) return;
+        matched.add(track);
+        ids[boxIndex] = track.id;
+        track.box = boxes[boxIndex];
+        track.missed = 0;
+      });
+
+      tracks.forEach(track => {
+        if (!matched.has(track)) track.missed += 1;
+      });
+      tracks = tracks.filter(track => track.missed <= maxMissedFrames);
+
+      // Unmatched detections start new tracks
+      return ids.map((id, boxIndex) => {
+        if (id !== null) return id;
+        const track = { id: nextId++, box: boxes[boxIndex], missed: 0 };
+        tracks.push(track);
+        return track.id;
+      });
+    },
+
+    trackIds() {
+      return tracks.map(track => track.id);
+    },
+
+    reset() {
+      tracks = [];
+      nextId = 1;
+    },
+  };
+};
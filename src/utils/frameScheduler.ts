@@ -0,0 +1,154 @@
+export const DEFAULT_TARGET_FPS = 10;
+
+// Inference times kept for the percentiles
+const WINDOW_SIZE = 60;
+// Spare time left between inferences when backing off, as a fraction of the median
+const BACKOFF_HEADROOM = 0.25;
+
+export interface PerformanceStats {
+  inferenceP50Ms: number;
+  inferenceP95Ms: number;
+  // Inferences completed during the last second
+  fps: number;
+  // Frames skipped because the previous inference was still running
+  droppedFrames: number;
+  // Time between inferences the scheduler is currently aiming for
+  intervalMs: number;
+}
+
+export interface PerformanceMonitor {
+  recordInference(durationMs: number, endedAt: number): void;
+  recordDropped(): void;
+  recordInterval(intervalMs: number): void;
+  stats(now?: number): PerformanceStats;
+  reset(): void;
+}
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))] : 0;
+
+export const createPerformanceMonitor = (): PerformanceMonitor => {
+  let durations: number[] = [];
+  let completions: number[] = [];
+  let dropped = 0;
+  let interval = 1000 / DEFAULT_TARGET_FPS;
+
+  return {
+    recordInference(durationMs, endedAt) {
+      durations = [...durations.slice(-(WINDOW_SIZE - 1)), durationMs];
+      // Only the last second matters for the frame rate
+      completions = [...completions.filter(time => endedAt - time < 1000), endedAt];
+    },
+
+    recordDropped() {
+      dropped += 1;
+    },
+
+    recordInterval(intervalMs) {
+      interval = intervalMs;
+    },
+
+    stats(now = performance.now()) {
+      const sorted = [...durations].sort((a, b) => a - b);
+      return {
+        inferenceP50Ms: percentile(sorted, 0.5),
+        inferenceP95Ms: percentile(sorted, 0.95),
+        fps: completions.filter(time => now - time < 1000).length,
+        droppedFrames: dropped,
+        intervalMs: interval,
+      };
+    },
+
+    reset() {
+      durations = [];
+      completions = [];
+      dropped = 0;
+    },
+  };
+};
+
+export interface FrameSchedulerOptions {
+  // Runs one inference and resolves to whether it did, e.g. false while the video
+  // is not ready; only inferences that ran count towards the stats. The next one
+  // starts after it settles. The signal aborts when the scheduler stops, after
+  // which the task must not deliver results
+  task: (signal: AbortSignal) => Promise<boolean>;
+  targetFps?: number;
+  monitor?: PerformanceMonitor;
+}
+
+export interface FrameScheduler {
+  start(): void;
+  // Resolves once the inference still running, if any, has settled
+  stop(): Promise<void>;
+}
+
+/**
+ * Drives inference from requestAnimationFrame at up to `targetFps`, never
+ * running two at once. When inferences take longer than the frame budget the
+ * interval stretches to the median inference time plus some headroom, so the
+ * page keeps time to render, and shrinks back once inference speeds up.
+ */
+export const createFrameScheduler = ({
+  task,
+  targetFps = DEFAULT_TARGET_FPS,
+  monitor = createPerformanceMonitor(),
+}: FrameSchedulerOptions): FrameScheduler => {
+  const targetIntervalMs = 1000 / targetFps;
+  let frameId: number | null = null;
+  let controller: AbortController | null = null;
+  let inFlight: Promise<void> | null = null;
+  let nextDue = 0;
+
+  const currentInterval = () => {
+    const { inferenceP50Ms } = monitor.stats();
+    return Math.max(targetIntervalMs, inferenceP50Ms * (1 + BACKOFF_HEADROOM));
+  };
+
+  const run = async (signal: AbortSignal) => {
+    const startedAt = performance.now();
+    try {
+      if (await task(signal)) {
+        const endedAt = performance.now();
+        monitor.recordInference(endedAt - startedAt, endedAt);
+      }
+    } catch (err) {
+      // A failed inference says nothing about how long one takes
+      console.error('Error during scheduled inference:', err);
+    } finally {
+      inFlight = null;
+    }
+  };
+
+  const tick = (now: number) => {
+    if (frameId === null) return;
+    frameId = requestAnimationFrame(tick);
+    if (now < nextDue) return;
+
+    const interval = currentInterval();
+    monitor.recordInterval(interval);
+    nextDue = now + interval;
+    if (inFlight) {
+      monitor.recordDropped();
+    } else if (controller) {
+      inFlight = run(controller.signal);
+    }
+  };
+
+  return {
+    start() {
+      if (frameId !== null) return;
+      nextDue = 0;
+      controller = new AbortController();
+      frameId = requestAnimationFrame(tick);
+    },
+
+    stop() {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+      controller?.abort();
+      controller = null;
+      return inFlight ?? Promise.resolve();
+    },
+  };
+};
@@ -0,0 +1,124 @@
+/**
+ * Where VideoStream reads frames from: the live camera, an uploaded video file
+ * or a folder of still images played back as a sequence.
+ */
+export type InputSource =
+  | { kind: 'webcam' }
+  | { kind: 'video'; file: File }
+  | { kind: 'images'; files: File[] };
+
+export interface MediaFrame {
+  image: HTMLVideoElement | HTMLImageElement;
+  width: number;
+  height: number;
+  // Media time of the frame in ms, offset by the reader's origin
+  timestamp: number;
+  // Fraction of the source read so far, 0 to 1
+  progress: number;
+}
+
+export interface FrameReaderOptions {
+  // Media time between analyzed frames; also the spacing of image sequences
+  frameIntervalMs?: number;
+  // Added to every frame's media time, e.g. the wall-clock time analysis started
+  originMs?: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_FRAME_INTERVAL_MS = 100;
+
+export const WEBCAM_SOURCE: InputSource = { kind: 'webcam' };
+
+export const isFileSource = (source: InputSource) => source.kind !== 'webcam';
+
+export const describeSource = (source: InputSource) => {
+  switch (source.kind) {
+    case 'webcam':
+      return 'Camera';
+    case 'video':
+      return source.file.name;
+    case 'images':
+      return `${source.files.length} images`;
+  }
+};
+
+// Image files in a selection, in natural filename order (frame2 before frame10)
+export const sortImageFiles = (files: FileList | File[]) =>
+  [...files]
+    .filter(file => file.type.startsWith('image/'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+const waitForEvent = (target: EventTarget, type: string) =>
+  new Promise<void>((resolve, reject) => {
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(`Failed to load media while waiting for ${type}`));
+    };
+    const cleanup = () => {
+      target.removeEventListener(type, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(type, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+/**
+ * Step through a video by seeking, yielding each frame as soon as it is
+ * decoded rather than in real time.
+ */
+export async function* readVideoFrames(
+  video: HTMLVideoElement,
+  { frameIntervalMs = DEFAULT_FRAME_INTERVAL_MS, originMs = 0, signal }: FrameReaderOptions = {}
+): AsyncGenerator<MediaFrame> {
+  if (video.readyState < HTMLMediaElement.HAVE_METADATA) {
+    await waitForEvent(video, 'loadedmetadata');
+  }
+
+  video.pause();
+  const durationMs = video.duration * 1000;
+  for (let time = 0; time <= durationMs && !signal?.aborted; time += frameIntervalMs) {
+    const seeked = waitForEvent(video, 'seeked');
+    video.currentTime = time / 1000;
+    await seeked;
+
+    yield {
+      image: video,
+      width: video.videoWidth,
+      height: video.videoHeight,
+      timestamp: originMs + time,
+      progress: durationMs > 0 ? Math.min(1, time / durationMs) : 1,
+    };
+  }
+}
+
+/**
+ * Load images one at a time and yield them as frames `frameIntervalMs` apart.
+ */
+export async function* readImageFrames(
+  files: File[],
+  { frameIntervalMs = DEFAULT_FRAME_INTERVAL_MS, originMs = 0, signal }: FrameReaderOptions = {}
+): AsyncGenerator<MediaFrame> {
+  for (let index = 0; index < files.length && !signal?.aborted; index += 1) {
+    const url = URL.createObjectURL(files[index]);
+    try {
+      const image = new Image();
+      const loaded = waitForEvent(image, 'load');
+      image.src = url;
+      await loaded;
+
+      yield {
+        image,
+        width: image.naturalWidth,
+        height: image.naturalHeight,
+        timestamp: originMs + index * frameIntervalMs,
+        progress: (index + 1) / files.length,
+      };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+}
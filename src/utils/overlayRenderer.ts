@@ -0,0 +1,238 @@
+import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection';
+import { EmotionData, FaceLandmarks } from '../types/emotion';
+import { BoundingBox } from './faceTracker';
+import { EMOTIONS, EMOTION_COLORS, getEmotionDefinition } from '../../shared/emotions';
+
+export interface OverlaySettings {
+  // FaceMesh tesselation
+  mesh: boolean;
+  // Eyes, brows, lips and face outline
+  contours: boolean;
+  box: boolean;
+  // Face id, emotion and confidence anchored above the face
+  label: boolean;
+  // Bar per emotion score next to the face
+  scores: boolean;
+  // Selfie view: the camera is shown flipped horizontally, like a mirror
+  mirrored: boolean;
+}
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  mesh: false,
+  contours: true,
+  box: true,
+  label: true,
+  scores: false,
+  mirrored: false,
+};
+
+const STORAGE_KEY = 'emotion-overlay-settings';
+
+const SETTING_KEYS = Object.keys(DEFAULT_OVERLAY_SETTINGS) as (keyof OverlaySettings)[];
+
+// The stored settings, with defaults for anything missing or unreadable
+export const loadOverlaySettings = (): OverlaySettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof stored !== 'object' || stored === null) return DEFAULT_OVERLAY_SETTINGS;
+    return Object.fromEntries(
+      SETTING_KEYS.map(key => [key, typeof stored[key] === 'boolean' ? stored[key] : DEFAULT_OVERLAY_SETTINGS[key]])
+    ) as unknown as OverlaySettings;
+  } catch {
+    return DEFAULT_OVERLAY_SETTINGS;
+  }
+};
+
+export const saveOverlaySettings = (settings: OverlaySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// MediaPipe FaceMesh keypoint indices along each contour, in drawing order
+const CONTOURS: { points: number[]; closed: boolean }[] = [
+  // Face outline
+  {
+    points: [
+      10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288, 397, 365, 379, 378, 400, 377,
+      152, 148, 176, 149, 150, 136, 172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109,
+    ],
+    closed: true,
+  },
+  // Eyes
+  { points: [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246], closed: true },
+  { points: [263, 249, 390, 373, 374, 380, 381, 382, 362, 398, 384, 385, 386, 387, 388, 466], closed: true },
+  // Brows
+  { points: [70, 63, 105, 66, 107], closed: false },
+  { points: [300, 293, 334, 296, 336], closed: false },
+  // Outer and inner lips
+  { points: [61, 146, 91, 181, 84, 17, 314, 405, 321, 375, 291, 409, 270, 269, 267, 0, 37, 39, 40, 185], closed: true },
+  { points: [78, 95, 88, 178, 87, 14, 317, 402, 318, 324, 308, 415, 310, 311, 312, 13, 82, 81, 80, 191], closed: true },
+];
+
+// Tesselation edges, looked up on first use
+let meshPairs: number[][] | null = null;
+const getMeshPairs = () => {
+  meshPairs ??= faceLandmarksDetection.util.getAdjacentPairs(faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh);
+  return meshPairs;
+};
+
+const LANDMARK_COLOR = '#00FF00';
+
+/**
+ * Maps frame coordinates, as the keypoints are measured, onto the canvas.
+ * The frame is fitted into the canvas like `object-fit: contain`.
+ */
+export interface OverlayViewport {
+  frameWidth: number;
+  frameHeight: number;
+  // Canvas size in device pixels
+  canvasWidth: number;
+  canvasHeight: number;
+  // Device pixels per CSS pixel; lines and text are sized in CSS pixels so
+  // they look the same however large the video is shown
+  pixelRatio: number;
+  // Flip horizontally to match a mirrored video underneath
+  mirrored: boolean;
+}
+
+export interface OverlayFace {
+  keypoints: FaceLandmarks[];
+  box: BoundingBox;
+  // Missing while calibrating or when the face could not be classified
+  emotion?: EmotionData | null;
+}
+
+const createProjection = ({ frameWidth, frameHeight, canvasWidth, canvasHeight, mirrored }: OverlayViewport) => {
+  const scale = Math.min(canvasWidth / frameWidth, canvasHeight / frameHeight);
+  const offsetX = (canvasWidth - frameWidth * scale) / 2;
+  const offsetY = (canvasHeight - frameHeight * scale) / 2;
+  return (point: { x: number; y: number }) => ({
+    x: offsetX + (mirrored ? frameWidth - point.x : point.x) * scale,
+    y: offsetY + point.y * scale,
+  });
+};
+
+type Project = ReturnType<typeof createProjection>;
+
+// A box stays a box when mirrored, with its left and right edges swapped
+const projectBox = (project: Project, box: BoundingBox): BoundingBox => {
+  const a = project({ x: box.xMin, y: box.yMin });
+  const b = project({ x: box.xMax, y: box.yMax });
+  return { xMin: Math.min(a.x, b.x), yMin: a.y, xMax: Math.max(a.x, b.x), yMax: b.y };
+};
+
+const drawMesh = (ctx: CanvasRenderingContext2D, points: { x: number; y: number }[], unit: number) => {
+  ctx.strokeStyle = 'rgba(0, 255, 0, 0.35)';
+  ctx.lineWidth = 0.5 * unit;
+  ctx.beginPath();
+  getMeshPairs().forEach(([from, to]) => {
+    if (!points[from] || !points[to]) return;
+    ctx.moveTo(points[from].x, points[from].y);
+    ctx.lineTo(points[to].x, points[to].y);
+  });
+  ctx.stroke();
+};
+
+const drawContours = (ctx: CanvasRenderingContext2D, points: { x: number; y: number }[], unit: number) => {
+  ctx.strokeStyle = LANDMARK_COLOR;
+  ctx.lineWidth = 1.5 * unit;
+  ctx.beginPath();
+  CONTOURS.forEach(({ points: indices, closed }) => {
+    const path = indices.map(index => points[index]);
+    if (path.some(point => !point)) return;
+    ctx.moveTo(path[0].x, path[0].y);
+    path.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    if (closed) ctx.closePath();
+  });
+  ctx.stroke();
+};
+
+// Label above the face, or below it when the face is near the top edge
+const drawLabel = (ctx: CanvasRenderingContext2D, emotion: EmotionData, box: BoundingBox, unit: number) => {
+  const title = `${emotion.faceId !== undefined ? `Face ${emotion.faceId}: ` : ''}${getEmotionDefinition(emotion.emotion).label}`;
+  const detail = `${(emotion.confidence * 100).toFixed(1)}%`;
+  const padding = 6 * unit;
+  const height = 40 * unit;
+
+  ctx.font = `bold ${14 * unit}px Arial`;
+  const width = Math.max(ctx.measureText(title).width, 80 * unit) + padding * 2;
+  const left = Math.min(Math.max(0, box.xMin), ctx.canvas.width - width);
+  const top = box.yMin - height - 4 * unit >= 0 ? box.yMin - height - 4 * unit : box.yMax + 4 * unit;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(left, top, width, height);
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(title, left + padding, top + 17 * unit);
+  ctx.font = `${12 * unit}px Arial`;
+  ctx.fillText(detail, left + padding, top + 31 * unit);
+
+  // Confidence bar in the emotion's color
+  const barWidth = width - padding * 2;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+  ctx.fillRect(left + padding, top + 34 * unit, barWidth, 3 * unit);
+  ctx.fillStyle = EMOTION_COLORS[emotion.emotion];
+  ctx.fillRect(left + padding, top + 34 * unit, barWidth * emotion.confidence, 3 * unit);
+};
+
+// One bar per emotion beside the face, on whichever side has room
+const drawScores = (ctx: CanvasRenderingContext2D, emotion: EmotionData, box: BoundingBox, unit: number) => {
+  if (!emotion.scores) return;
+  const rowHeight = 14 * unit;
+  const labelWidth = 64 * unit;
+  const barWidth = 60 * unit;
+  const padding = 6 * unit;
+  const width = labelWidth + barWidth + padding * 2;
+  const height = rowHeight * EMOTIONS.length + padding * 2;
+
+  const rightSide = box.xMax + 4 * unit;
+  const left = rightSide + width <= ctx.canvas.width ? rightSide : Math.max(0, box.xMin - width - 4 * unit);
+  const top = Math.min(Math.max(0, box.yMin), ctx.canvas.height - height);
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(left, top, width, height);
+
+  ctx.font = `${11 * unit}px Arial`;
+  ctx.textBaseline = 'middle';
+  EMOTIONS.forEach((name, index) => {
+    const score = emotion.scores?.[name] ?? 0;
+    const y = top + padding + rowHeight * index;
+    ctx.fillStyle = name === emotion.emotion ? '#FFFFFF' : '#CBD5E1';
+    ctx.fillText(getEmotionDefinition(name).label, left + padding, y + rowHeight / 2);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.fillRect(left + padding + labelWidth, y + 3 * unit, barWidth, rowHeight - 6 * unit);
+    ctx.fillStyle = EMOTION_COLORS[name];
+    ctx.fillRect(left + padding + labelWidth, y + 3 * unit, barWidth * score, rowHeight - 6 * unit);
+  });
+  ctx.textBaseline = 'alphabetic';
+};
+
+/**
+ * Draw the enabled overlay layers for each face. Keypoints and boxes are in
+ * frame coordinates; the viewport maps them onto the canvas.
+ */
+export const drawOverlay = (
+  ctx: CanvasRenderingContext2D,
+  faces: OverlayFace[],
+  viewport: OverlayViewport,
+  settings: OverlaySettings
+) => {
+  if (!viewport.frameWidth || !viewport.frameHeight) return;
+  const project = createProjection(viewport);
+  const unit = viewport.pixelRatio;
+
+  faces.forEach(({ keypoints, box, emotion }) => {
+    const points = keypoints.map(project);
+    const canvasBox = projectBox(project, box);
+
+    if (settings.mesh) drawMesh(ctx, points, unit);
+    if (settings.contours) drawContours(ctx, points, unit);
+    if (settings.box) {
+      ctx.strokeStyle = emotion ? EMOTION_COLORS[emotion.emotion] : LANDMARK_COLOR;
+      ctx.lineWidth = 2 * unit;
+      ctx.strokeRect(canvasBox.xMin, canvasBox.yMin, canvasBox.xMax - canvasBox.xMin, canvasBox.yMax - canvasBox.yMin);
+    }
+    if (emotion && settings.label) drawLabel(ctx, emotion, canvasBox, unit);
+    if (emotion && settings.scores) drawScores(ctx, emotion, canvasBox, unit);
+  });
+};
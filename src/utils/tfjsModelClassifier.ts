@@ -0,0 +1,151 @@
+import * as tf from '@tensorflow/tfjs';
+import { ClassifierMetadata, EmotionClassifier } from '../types/classifier';
+import { Emotion } from '../types/emotion';
+import { EMOTIONS, emotionRecord, isEmotion } from '../../shared/emotions';
+
+/**
+ * Output classes of models trained on FER-2013, the most common public
+ * facial expression dataset. Classes not in the emotion registry are null.
+ */
+export const FER2013_LABELS: (Emotion | null)[] = ['angry', 'disgust', 'fear', 'happy', 'sad', 'surprised', 'neutral']
+  .map(label => (isEmotion(label) ? label : null));
+
+export interface TfjsModelClassifierOptions {
+  // model.json of a model converted with tensorflowjs_converter
+  url: string;
+  format?: 'graph' | 'layers';
+  // Emotion for each model output, in output order; null ignores that output
+  labels?: (Emotion | null)[];
+  // Input size and channels are read from the model; these are fallbacks for
+  // models with dynamic input shapes
+  inputSize?: number;
+  grayscale?: boolean;
+  // Extra space around the detector's box, as a fraction of its size
+  cropMargin?: number;
+  metadata?: Partial<Omit<ClassifierMetadata, 'input' | 'emotions'>>;
+}
+
+type FrameImage = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+// Element classes are undefined inside workers, where frames arrive as ImageBitmaps
+const isInstance = <T>(value: unknown, type: { new (...args: never[]): T } | undefined): value is T =>
+  type !== undefined && value instanceof type;
+
+const isFrameImage = (image: unknown): image is FrameImage =>
+  isInstance(image, globalThis.ImageBitmap) ||
+  isInstance(image, globalThis.HTMLVideoElement) ||
+  isInstance(image, globalThis.HTMLImageElement) ||
+  isInstance(image, globalThis.HTMLCanvasElement);
+
+const frameSize = (image: FrameImage) => {
+  if (isInstance(image, globalThis.HTMLVideoElement)) return { width: image.videoWidth, height: image.videoHeight };
+  if (isInstance(image, globalThis.HTMLImageElement)) return { width: image.naturalWidth, height: image.naturalHeight };
+  return { width: image.width, height: image.height };
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Models exported without a final softmax produce logits; normalize those
+const toDistribution = (values: number[]) => {
+  const sum = values.reduce((a, b) => a + b, 0);
+  if (values.every(value => value >= 0 && value <= 1) && Math.abs(sum - 1) < 1e-3) return values;
+  const max = Math.max(...values);
+  const exps = values.map(value => Math.exp(value - max));
+  const total = exps.reduce((a, b) => a + b, 0);
+  return exps.map(value => value / total);
+};
+
+/**
+ * Classifier backed by a TF.js GraphModel or LayersModel that scores a crop
+ * of the frame cut out with the face detector's box.
+ */
+export const createTfjsModelClassifier = ({
+  url,
+  format = 'layers',
+  labels = FER2013_LABELS,
+  inputSize = 48,
+  grayscale = true,
+  cropMargin = 0.1,
+  metadata: metadataOverrides = {},
+}: TfjsModelClassifierOptions): EmotionClassifier => {
+  let model: tf.GraphModel | tf.LayersModel | null = null;
+  let size: [number, number] = [inputSize, inputSize];
+  let channels = grayscale ? 1 : 3;
+
+  const metadata: ClassifierMetadata = {
+    id: 'tfjs-model',
+    version: '1',
+    name: 'TF.js model',
+    description: `Trained model from ${url}, applied to the face crop`,
+    ...metadataOverrides,
+    input: 'image',
+    emotions: EMOTIONS.filter(emotion => labels.includes(emotion)),
+  };
+
+  return {
+    metadata,
+
+    async init() {
+      if (model) return;
+      model = format === 'graph' ? await tf.loadGraphModel(url) : await tf.loadLayersModel(url);
+
+      // NHWC input; unknown dimensions keep the configured fallbacks
+      const [, height, width, modelChannels] = model.inputs[0].shape ?? [];
+      if (height && height > 0 && width && width > 0) size = [height, width];
+      if (modelChannels === 1 || modelChannels === 3) channels = modelChannels;
+    },
+
+    classify({ box, image, timestamp }) {
+      if (!model || !isFrameImage(image)) return null;
+      const { width, height } = frameSize(image);
+      if (!width || !height) return null;
+
+      const marginX = (box.xMax - box.xMin) * cropMargin;
+      const marginY = (box.yMax - box.yMin) * cropMargin;
+      // cropAndResize takes [y1, x1, y2, x2] relative to the frame
+      const cropBox = [
+        clamp01((box.yMin - marginY) / height),
+        clamp01((box.xMin - marginX) / width),
+        clamp01((box.yMax + marginY) / height),
+        clamp01((box.xMax + marginX) / width),
+      ];
+      if (cropBox[2] <= cropBox[0] || cropBox[3] <= cropBox[1]) return null;
+
+      const activeModel = model;
+      const output = tf.tidy(() => {
+        const frame = tf.browser.fromPixels(image).toFloat().div(255).expandDims(0) as tf.Tensor4D;
+        const crop = tf.image.cropAndResize(frame, [cropBox], [0], size);
+        const input = channels === 1 ? crop.mean(3, true) : crop;
+        const prediction = activeModel.predict(input);
+        return (Array.isArray(prediction) ? prediction[0] : prediction) as tf.Tensor;
+      });
+      const values = Array.from(output.dataSync());
+      output.dispose();
+
+      if (values.length !== labels.length) {
+        console.error(`Model has ${values.length} outputs but ${labels.length} labels are configured`);
+        return null;
+      }
+
+      // Fold the outputs into our emotions and renormalize over the ones kept
+      const scores = emotionRecord();
+      toDistribution(values).forEach((probability, index) => {
+        const label = labels[index];
+        if (label) scores[label] += probability;
+      });
+      const total = EMOTIONS.reduce((sum, emotion) => sum + scores[emotion], 0);
+      if (total <= 0) return null;
+      EMOTIONS.forEach(emotion => {
+        scores[emotion] /= total;
+      });
+
+      const emotion = EMOTIONS.reduce((best, candidate) => (scores[candidate] > scores[best] ? candidate : best));
+      return { emotion, confidence: scores[emotion], timestamp, scores };
+    },
+
+    dispose() {
+      model?.dispose();
+      model = null;
+    },
+  };
+};
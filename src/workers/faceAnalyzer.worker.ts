@@ -0,0 +1,33 @@
+import { AnalyzerRequest, AnalyzerResponse, createLocalAnalyzer } from '../utils/faceAnalyzer';
+
+// Runs face detection and classification off the main thread for createWorkerAnalyzer
+const analyzer = createLocalAnalyzer('worker');
+
+const handle = async (request: AnalyzerRequest): Promise<unknown> => {
+  switch (request.type) {
+    case 'init':
+      return analyzer.init(request.maxFaces);
+    case 'configure':
+      return analyzer.configure(request.config);
+    case 'analyze':
+      try {
+        return await analyzer.analyze(request.image, request.options);
+      } finally {
+        request.image.close();
+      }
+    case 'reset':
+      return analyzer.reset();
+    case 'stats':
+      return analyzer.stats();
+  }
+};
+
+self.onmessage = async ({ data }: MessageEvent<AnalyzerRequest>) => {
+  let response: AnalyzerResponse;
+  try {
+    response = { id: data.id, result: await handle(data) };
+  } catch (err) {
+    response = { id: data.id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};